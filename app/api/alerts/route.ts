@@ -1,55 +1,98 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/app/lib/db';
-import { trafficAlerts } from '@/app/lib/schema';
-import { sql, gte } from 'drizzle-orm';
+import { trafficAlerts, trafficJams } from '@/app/lib/schema';
+import { jamToFeature } from '@/app/lib/waze-jams';
+import { and, gt, gte, isNull, lte, or } from 'drizzle-orm';
 
 export async function GET(req: NextRequest) {
     try {
         const searchParams = req.nextUrl.searchParams;
         const hoursParam = searchParams.get('hours');
-        const hours = hoursParam ? parseFloat(hoursParam) : 1;
+        const hours = hoursParam ? Number(hoursParam) : 1;
+        if (!Number.isFinite(hours) || hours <= 0) {
+            return NextResponse.json({ error: 'Invalid hours parameter' }, { status: 400 });
+        }
+
+        // Time T the view is for (defaults to now); `hours` is how far back the last sighting may be
+        const atParam = searchParams.get('at');
+        const at = atParam ? new Date(atParam) : new Date();
+        if (Number.isNaN(at.getTime())) {
+            return NextResponse.json({ error: 'Invalid at parameter' }, { status: 400 });
+        }
 
         // Calculate the time threshold
-        const timeThreshold = new Date();
-        timeThreshold.setHours(timeThreshold.getHours() - hours);
+        const timeThreshold = new Date(at.getTime() - hours * 60 * 60 * 1000);
 
-        // Query alerts within the time horizon
+        // Alerts active at T: first seen by then and not yet resolved. Unresolved alerts whose area nobody
+        // has scanned within `hours` of T are left out as stale - they may have cleared unseen.
         const alerts = await db
             .select()
             .from(trafficAlerts)
-            .where(gte(trafficAlerts.publishDatetimeUtc, timeThreshold));
+            .where(and(
+                lte(trafficAlerts.firstSeenAt, at),
+                or(isNull(trafficAlerts.resolvedAt), gt(trafficAlerts.resolvedAt, at)),
+                gte(trafficAlerts.lastSeenAt, timeThreshold),
+            ));
+
+        // Jams seen by a scan within the time horizon
+        const jams = await db
+            .select()
+            .from(trafficJams)
+            .where(and(
+                lte(trafficJams.createdAt, at),
+                gte(trafficJams.updatedAt, timeThreshold),
+            ));
 
         // Convert to GeoJSON
         const geojson = {
             type: 'FeatureCollection',
-            features: alerts
-                .filter(a => a.latitude !== null && a.longitude !== null)
-                .map(a => ({
-                    type: 'Feature',
-                    geometry: {
-                        type: 'Point',
-                        coordinates: [a.longitude!, a.latitude!],
-                    },
-                    properties: {
-                        id: a.alertId,
-                        type: a.type,
-                        subtype: a.subtype,
-                        confidence: a.alertConfidence ?? 0,
-                        reliability: a.alertReliability ?? 0,
-                        street: a.street ?? '',
-                        city: a.city ?? '',
-                        publishedAt: a.publishDatetimeUtc?.toISOString(),
-                        description: a.description ?? '',
-                        kind: 'alert',
-                    },
+            features: [
+                ...alerts
+                    .filter(a => a.latitude !== null && a.longitude !== null)
+                    .map(a => ({
+                        type: 'Feature',
+                        geometry: {
+                            type: 'Point',
+                            coordinates: [a.longitude!, a.latitude!],
+                        },
+                        properties: {
+                            id: a.alertId,
+                            type: a.type,
+                            subtype: a.subtype,
+                            confidence: a.alertConfidence ?? 0,
+                            reliability: a.alertReliability ?? 0,
+                            street: a.street ?? '',
+                            city: a.city ?? '',
+                            publishedAt: a.publishDatetimeUtc?.toISOString(),
+                            description: a.description ?? '',
+                            kind: 'alert',
+                            firstSeenAt: a.firstSeenAt.toISOString(),
+                            lastSeenAt: a.lastSeenAt.toISOString(),
+                            seenCount: a.seenCount,
+                            resolvedAt: a.resolvedAt?.toISOString() ?? null,
+                        },
+                    })),
+                ...jams.map(j => jamToFeature({
+                    jamId: j.jamId,
+                    level: j.level ?? 0,
+                    speedKmh: j.speedKmh,
+                    lengthMeters: j.lengthMeters,
+                    delaySeconds: j.delaySeconds,
+                    street: j.street,
+                    city: j.city,
+                    line: j.line,
+                    publishedAt: j.publishDatetimeUtc?.toISOString() ?? null,
                 })),
+            ],
         };
 
         return NextResponse.json({
             status: 'ok',
             geojson,
-            count: alerts.length,
+            count: alerts.length + jams.length,
+            counts: { alerts: alerts.length, jams: jams.length },
             timeHorizon: hours,
+            at: at.toISOString(),
         });
     } catch (error) {
         console.error('[Alerts API] Error fetching alerts:', error);
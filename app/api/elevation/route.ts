@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { corsHeaders, guardApiRequest } from '@/app/lib/api-access';
+import {
+    MAX_ELEVATION_POINTS,
+    MAX_ELEVATION_ZOOM,
+    getElevationProfile,
+    getElevations,
+} from '@/app/lib/elevation';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Terrain changes on geological time - let browsers and CDNs keep point lookups
+const ELEVATION_CACHE_CONTROL = 'public, max-age=86400';
+// A null elevation may just be a terrain tile that failed to load - don't let it stick
+const NO_ELEVATION_CACHE_CONTROL = 'no-store';
+
+const LngLatSchema = z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]);
+const ZoomSchema = z.number().int().min(0).max(MAX_ELEVATION_ZOOM).optional();
+
+const PointQuerySchema = z.object({
+    lng: z.coerce.number().min(-180).max(180),
+    lat: z.coerce.number().min(-90).max(90),
+    zoom: z.coerce.number().int().min(0).max(MAX_ELEVATION_ZOOM).optional(),
+});
+
+const BodySchema = z.union([
+    z.object({
+        points: z.array(LngLatSchema).min(1).max(MAX_ELEVATION_POINTS),
+        zoom: ZoomSchema,
+    }),
+    z.object({
+        line: z.array(LngLatSchema).min(2).max(MAX_ELEVATION_POINTS),
+        // Meters between samples (default: 200 samples over the line)
+        interval: z.number().positive().optional(),
+        zoom: ZoomSchema,
+    }),
+]);
+
+/**
+ * GET /api/elevation?lng=151.21&lat=-33.87[&zoom=15]
+ * Elevation in meters at one point (null where no terrain is available).
+ */
+export async function GET(request: NextRequest) {
+    const denied = await guardApiRequest(request, 'elevation');
+    if (denied) {
+        return denied;
+    }
+
+    const parsed = PointQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+        return NextResponse.json(
+            { status: 'error', error: 'Invalid elevation query', issues: parsed.error.issues },
+            { status: 400 }
+        );
+    }
+
+    const { lng, lat, zoom } = parsed.data;
+
+    try {
+        const { samples, zoom: usedZoom } = await getElevations([[lng, lat]], zoom);
+        const { elevation } = samples[0];
+
+        return NextResponse.json(
+            { status: 'ok', lng, lat, elevation, zoom: usedZoom },
+            {
+                headers: {
+                    'Cache-Control': elevation === null ? NO_ELEVATION_CACHE_CONTROL : ELEVATION_CACHE_CONTROL,
+                    ...corsHeaders(request),
+                },
+            }
+        );
+    } catch (error) {
+        console.error('[Elevation] Point lookup error:', error);
+        return NextResponse.json({ status: 'error', error: 'Failed to look up elevation' }, { status: 500 });
+    }
+}
+
+/**
+ * POST /api/elevation
+ * Body: { points: [[lng, lat], ...], zoom? } for a batch, or
+ *       { line: [[lng, lat], ...], interval?, zoom? } for a profile sampled every `interval` meters
+ * Profiles also report total distance, min/max elevation and ascent/descent.
+ */
+export async function POST(request: NextRequest) {
+    const denied = await guardApiRequest(request, 'elevation');
+    if (denied) {
+        return denied;
+    }
+
+    const parsed = BodySchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+        return NextResponse.json(
+            { status: 'error', error: 'Invalid elevation request', issues: parsed.error.issues },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const body = parsed.data;
+
+        if ('line' in body) {
+            const profile = await getElevationProfile(body.line, { interval: body.interval, maxZoom: body.zoom });
+            return NextResponse.json({ status: 'ok', ...profile }, { headers: corsHeaders(request) });
+        }
+
+        const { samples, zoom } = await getElevations(body.points, body.zoom);
+        return NextResponse.json({ status: 'ok', samples, zoom }, { headers: corsHeaders(request) });
+    } catch (error) {
+        console.error('[Elevation] Batch lookup error:', error);
+        return NextResponse.json({ status: 'error', error: 'Failed to look up elevation' }, { status: 500 });
+    }
+}
+
+// Preflight CORS
+export async function OPTIONS(request: NextRequest) {
+    return new NextResponse(null, {
+        status: 200,
+        headers: {
+            ...corsHeaders(request),
+            'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+            'Access-Control-Allow-Headers': 'Content-Type, X-API-Key',
+        },
+    });
+}
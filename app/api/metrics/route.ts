@@ -0,0 +1,41 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { metricsRegistry } from '@/app/lib/metrics';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/** With METRICS_TOKEN set, scrapers must send `Authorization: Bearer <token>` */
+function isAuthorized(request: NextRequest): boolean {
+    const token = process.env.METRICS_TOKEN;
+    if (!token) {
+        return true;
+    }
+
+    const provided = Buffer.from((request.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, ''));
+    const expected = Buffer.from(token);
+    return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * GET /api/metrics
+ * Prometheus text exposition of this instance's tile proxy metrics.
+ */
+export async function GET(request: NextRequest) {
+    if (!isAuthorized(request)) {
+        return new NextResponse('Unauthorized', { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } });
+    }
+
+    try {
+        return new NextResponse(await metricsRegistry.metrics(), {
+            status: 200,
+            headers: {
+                'Content-Type': metricsRegistry.contentType,
+                'Cache-Control': 'no-store',
+            },
+        });
+    } catch (error) {
+        console.error('[Metrics] Failed to collect metrics:', error);
+        return new NextResponse('Failed to collect metrics', { status: 500 });
+    }
+}
@@ -1,109 +1,213 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { TileCache } from '@/app/lib/redis';
-
-// Tile source upstream configurations
-const TILE_SOURCES = {
-    satellite: {
-        url: 'https://services.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
-        contentType: 'image/jpeg',
-        timeout: 15000,
-    },
-    terrain: {
-        url: 'https://s3.amazonaws.com/elevation-tiles-prod/terrarium/{z}/{x}/{y}.png',
-        contentType: 'image/png',
-        timeout: 10000,
-    },
-    streets: {
-        url: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
-        contentType: 'image/png',
-        timeout: 10000,
-    },
-    topo: {
-        url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Topo_Map/MapServer/tile/{z}/{y}/{x}',
-        contentType: 'image/jpeg',
-        timeout: 15000,
-    },
-    dark: {
-        url: 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}.png',
-        contentType: 'image/png',
-        timeout: 10000,
-    },
-    voyager: {
-        url: 'https://{s}.basemaps.cartocdn.com/rastertiles/voyager/{z}/{x}/{y}.png',
-        contentType: 'image/png',
-        timeout: 10000,
-    },
-    labels: {
-        // Labels overlay for any base map
-        url: 'https://server.arcgisonline.com/ArcGIS/rest/services/Reference/World_Boundaries_and_Places/MapServer/tile/{z}/{y}/{x}',
-        contentType: 'image/png',
-        timeout: 15000,
-    },
-    // Tactical/Specialized Maps
-    opentopo: {
-        url: 'https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png',
-        contentType: 'image/png',
-        timeout: 10000,
-    },
-    cyclosm: {
-        url: 'https://a.tile-cyclosm.openstreetmap.fr/cyclosm/{z}/{x}/{y}.png',
-        contentType: 'image/png',
-        timeout: 10000,
-    },
-    usgs_imagery: {
-        url: 'https://basemap.nationalmap.gov/ArcGIS/rest/services/USGSImageryOnly/MapServer/tile/{z}/{y}/{x}',
-        contentType: 'image/jpeg',
-        timeout: 15000,
-    },
-    usgs_topo: {
-        url: 'https://basemap.nationalmap.gov/ArcGIS/rest/services/USGSImageryTopo/MapServer/tile/{z}/{y}/{x}',
-        contentType: 'image/jpeg',
-        timeout: 15000,
-    },
-    openseamap: {
-        url: 'https://t1.openseamap.org/tiles/base/{z}/{x}/{y}.png',
-        contentType: 'image/png',
-        timeout: 10000,
-    },
-    mtbmap: {
-        url: 'http://tile.mtbmap.cz/mtbmap_tiles/{z}/{x}/{y}.png',
-        contentType: 'image/png',
-        timeout: 10000,
-    },
-} as const;
-
-type TileSource = keyof typeof TILE_SOURCES;
+import { TileCache, TileRequestOutcome } from '@/app/lib/redis';
+import { corsHeaders, guardApiRequest } from '@/app/lib/api-access';
+import { TileMetrics } from '@/app/lib/metrics';
+import { fetchOverzoomTile, getCachedOverzoomTile } from '@/app/lib/tile-overzoom';
+import { fetchTileCoalesced, fetchUpstreamTile, revalidateTile } from '@/app/lib/tile-upstream';
+import {
+    TILE_SOURCES,
+    TileSourceDefinition,
+    TileSourceId,
+    isTileSourceId,
+    isArchiveSource,
+    detectContentEncoding,
+    getServedMaxZoom,
+    getTileSuffix,
+} from '@/app/lib/tile-sources';
 
 // Enable edge runtime for global distribution and faster cold starts
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-export async function GET(
+// 7 days browser cache - not immutable, tiles can change when the proxy revalidates them
+const TILE_CACHE_CONTROL = 'public, max-age=604800';
+// Fallback tiles stand in for the primary only while it is down - caching them under its URL would keep
+// showing them after it recovers
+const FALLBACK_TILE_CACHE_CONTROL = 'no-store';
+
+/**
+ * Whether the browser's conditional request matches the tile it already has
+ * If-None-Match takes precedence over If-Modified-Since (RFC 9110).
+ */
+function isNotModified(request: NextRequest, etag: string, lastModified: string | null): boolean {
+    const ifNoneMatch = request.headers.get('if-none-match');
+    if (ifNoneMatch) {
+        return ifNoneMatch
+            .split(',')
+            .map((tag) => tag.trim().replace(/^W\//, ''))
+            .some((tag) => tag === '*' || tag === etag);
+    }
+
+    const ifModifiedSince = request.headers.get('if-modified-since');
+    if (ifModifiedSince && lastModified) {
+        const since = Date.parse(ifModifiedSince);
+        const modified = Date.parse(lastModified);
+        return !isNaN(since) && !isNaN(modified) && modified <= since;
+    }
+
+    return false;
+}
+
+/** Count the request in the per-source stats without delaying the response */
+function recordRequest(source: TileSourceId, outcome: TileRequestOutcome, startTime: number): void {
+    TileCache.recordRequest(source, outcome, Date.now() - startTime).catch((err) => {
+        console.error(`[TileCache] Failed to record stats for ${source}:`, err);
+        TileMetrics.recordRedisError('stats');
+    });
+}
+
+/**
+ * Serve a tile straight from the source's local archive(s) - no Redis, so this works on a laptop without it
+ */
+async function archiveTileResponse(
     request: NextRequest,
-    { params }: { params: Promise<{ source: string; z: string; x: string; y: string }> }
-) {
+    source: TileSourceId,
+    z: number,
+    x: number,
+    y: number
+): Promise<NextResponse> {
+    const result = await fetchUpstreamTile(source, z, x, y);
+
+    if (!result.ok) {
+        return new NextResponse(result.message, { status: result.status });
+    }
+
+    const contentEncoding = detectContentEncoding(result.data);
+    const etag = TileCache.computeEtag(result.data);
+    const cors = corsHeaders(request);
+
+    if (isNotModified(request, etag, result.lastModified)) {
+        return notModifiedResponse(etag, 'LOCAL', cors);
+    }
+
+    return new NextResponse(new Uint8Array(result.data), {
+        status: 200,
+        headers: {
+            'Content-Type': result.contentType,
+            'Content-Length': String(result.data.length),
+            ...(contentEncoding ? { 'Content-Encoding': contentEncoding } : {}),
+            'Cache-Control': TILE_CACHE_CONTROL,
+            'ETag': etag,
+            ...(result.lastModified ? { 'Last-Modified': result.lastModified } : {}),
+            'X-Cache-Status': 'LOCAL',
+            ...cors,
+        },
+    });
+}
+
+/**
+ * Serve a tile upscaled from its nearest parent (past the source's maxZoom, or a gap upstream)
+ * Pass `cached` when the overzoom cache was already checked.
+ * X-Cache-Status is OVERZOOM_HIT from the overzoom cache, OVERZOOM when just synthesized.
+ */
+async function overzoomTileResponse(
+    request: NextRequest,
+    source: TileSourceId,
+    z: number,
+    x: number,
+    y: number,
+    startTime: number,
+    cached: { data: Buffer; contentType: string } | null = null
+): Promise<NextResponse> {
+    const cors = corsHeaders(request);
+    const result = cached
+        ? { ok: true as const, ...cached, cached: true, parentZoom: null }
+        : await fetchOverzoomTile(source, z, x, y);
+
+    if (!result.ok) {
+        recordRequest(source, 'error', startTime);
+        return new NextResponse(result.message, { status: result.status });
+    }
+
+    const etag = TileCache.computeEtag(result.data);
+    const cacheStatus = result.cached ? 'OVERZOOM_HIT' : 'OVERZOOM';
+    recordRequest(source, result.cached ? 'hit' : 'miss', startTime);
+
+    if (isNotModified(request, etag, null)) {
+        return notModifiedResponse(etag, cacheStatus, cors);
+    }
+
+    return new NextResponse(new Uint8Array(result.data), {
+        status: 200,
+        headers: {
+            'Content-Type': result.contentType,
+            'Content-Length': String(result.data.length),
+            'Cache-Control': TILE_CACHE_CONTROL,
+            'ETag': etag,
+            'X-Cache-Status': cacheStatus,
+            'X-Cache-Time': `${Date.now() - startTime}ms`,
+            ...(result.parentZoom !== null ? { 'X-Tile-Overzoom': `z${result.parentZoom}` } : {}),
+            ...cors,
+        },
+    });
+}
+
+function notModifiedResponse(etag: string, cacheStatus: string, cors: Record<string, string>): NextResponse {
+    return new NextResponse(null, {
+        status: 304,
+        headers: {
+            'ETag': etag,
+            'Cache-Control': TILE_CACHE_CONTROL,
+            'X-Cache-Status': cacheStatus,
+            ...cors,
+        },
+    });
+}
+
+type TileRouteParams = { source: string; z: string; x: string; y: string };
+
+export async function GET(request: NextRequest, { params }: { params: Promise<TileRouteParams> }) {
     const startTime = Date.now();
+    const tileParams = await params;
+    const response = await serveTile(request, tileParams, startTime);
 
+    // Prometheus metrics (/api/metrics) - every response, including rejected requests
+    TileMetrics.recordResponse(
+        tileParams.source,
+        response.status,
+        response.headers.get('X-Cache-Status'),
+        Number(response.headers.get('Content-Length') ?? 0),
+        Date.now() - startTime
+    );
+
+    return response;
+}
+
+async function serveTile(request: NextRequest, tileParams: TileRouteParams, startTime: number): Promise<NextResponse> {
     try {
-        const { source, z, x, y } = await params;
+        const { source, z, x, y } = tileParams;
 
         // Validate source
-        if (!(source in TILE_SOURCES)) {
+        if (!isTileSourceId(source)) {
             return new NextResponse('Invalid tile source', { status: 400 });
         }
 
-        const tileSource = source as TileSource;
+        // Origin allowlist, signed URLs and per-client rate limit
+        const denied = await guardApiRequest(request, 'tiles', { tileSource: source });
+        if (denied) {
+            return denied;
+        }
+
+        const tileSource: TileSourceId = source;
+        const sourceConfig: TileSourceDefinition = TILE_SOURCES[tileSource];
+        const cors = corsHeaders(request);
+        // Vector tiles are requested as {y}.pbf - the suffix must match the source type
+        const yMatch = /^(\d+)(\.pbf)?$/.exec(y);
+        if (yMatch?.[2] && yMatch[2] !== getTileSuffix(sourceConfig)) {
+            return new NextResponse('Invalid tile format for source', { status: 400 });
+        }
+
         const zoom = parseInt(z, 10);
         const tileX = parseInt(x, 10);
-        const tileY = parseInt(y, 10);
+        const tileY = yMatch ? parseInt(yMatch[1], 10) : NaN;
 
         // Validate tile coordinates
         if (isNaN(zoom) || isNaN(tileX) || isNaN(tileY)) {
             return new NextResponse('Invalid tile coordinates', { status: 400 });
         }
 
-        // Validate zoom level (0-22 is standard for web mercator)
-        if (zoom < 0 || zoom > 22) {
+        // Validate zoom level against the source's published range (plus overzoomed levels)
+        if (zoom < sourceConfig.minZoom || zoom > getServedMaxZoom(sourceConfig)) {
             return new NextResponse('Invalid zoom level', { status: 400 });
         }
 
@@ -113,99 +217,111 @@ export async function GET(
             return new NextResponse('Tile coordinates out of bounds', { status: 400 });
         }
 
+        if (isArchiveSource(sourceConfig)) {
+            return archiveTileResponse(request, tileSource, zoom, tileX, tileY);
+        }
+
+        // Past the native max there is nothing upstream - upscale from the deepest native level
+        if (zoom > sourceConfig.maxZoom) {
+            return overzoomTileResponse(request, tileSource, zoom, tileX, tileY, startTime);
+        }
+
         // CACHE LAYER 1: Check Redis
         try {
             const cached = await TileCache.get(tileSource, zoom, tileX, tileY);
 
             if (cached) {
                 const cacheTime = Date.now() - startTime;
-                console.log(`[TileCache] HIT ${tileSource}/${z}/${x}/${y} (${cacheTime}ms)`);
+                const cacheStatus = cached.stale ? 'STALE' : 'HIT';
+                console.log(`[TileCache] ${cacheStatus} ${tileSource}/${z}/${x}/${y} (${cacheTime}ms)`);
+                recordRequest(tileSource, cached.stale ? 'stale' : 'hit', startTime);
+
+                // Past its soft expiry - serve it now and refresh from upstream in the background
+                if (cached.stale) {
+                    revalidateTile(tileSource, zoom, tileX, tileY, cached);
+                }
+
+                const lastModified = cached.lastModified
+                    ?? (cached.fetchedAt !== null ? new Date(cached.fetchedAt).toUTCString() : null);
+
+                if (isNotModified(request, cached.etag, lastModified)) {
+                    return notModifiedResponse(cached.etag, cacheStatus, cors);
+                }
 
                 return new NextResponse(new Uint8Array(cached.data), {
                     status: 200,
                     headers: {
                         'Content-Type': cached.contentType,
-                        'Cache-Control': 'public, max-age=604800, immutable', // 7 days browser cache
-                        'X-Cache-Status': 'HIT',
+                        'Content-Length': String(cached.data.length),
+                        ...(cached.contentEncoding ? { 'Content-Encoding': cached.contentEncoding } : {}),
+                        'Cache-Control': TILE_CACHE_CONTROL,
+                        'ETag': cached.etag,
+                        ...(lastModified ? { 'Last-Modified': lastModified } : {}),
+                        'X-Cache-Status': cacheStatus,
                         'X-Cache-Time': `${cacheTime}ms`,
-                        'Access-Control-Allow-Origin': '*',
+                        ...cors,
                     },
                 });
             }
         } catch (redisError) {
             // Redis failure should not break tile serving - log and continue to upstream
             console.error(`[TileCache] Redis error for ${tileSource}/${z}/${x}/${y}:`, redisError);
+            TileMetrics.recordRedisError('get');
         }
 
-        // CACHE MISS: Fetch from upstream
-        const sourceConfig = TILE_SOURCES[tileSource];
-
-        // Handle subdomain placeholder for load balancing (CartoDB uses a, b, c, d)
-        const subdomain = ['a', 'b', 'c', 'd'][Math.floor(Math.random() * 4)];
+        // CACHE MISS: Fetch from upstream - concurrent misses share one upstream request
+        console.log(`[TileCache] MISS ${tileSource}/${z}/${x}/${y} - Fetching from upstream`);
 
-        const upstreamUrl = sourceConfig.url
-            .replace('{s}', subdomain)
-            .replace('{z}', z)
-            .replace('{x}', x)
-            .replace('{y}', y);
+        // Known imagery gap - skip the upstream request that would 404 again
+        const canOverzoom = getServedMaxZoom(sourceConfig) > sourceConfig.maxZoom;
+        const knownGap = canOverzoom ? await getCachedOverzoomTile(tileSource, zoom, tileX, tileY) : null;
+        if (knownGap) {
+            return overzoomTileResponse(request, tileSource, zoom, tileX, tileY, startTime, knownGap);
+        }
 
-        console.log(`[TileCache] MISS ${tileSource}/${z}/${x}/${y} - Fetching from upstream`);
+        const { result, origin } = await fetchTileCoalesced(tileSource, zoom, tileX, tileY);
 
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), sourceConfig.timeout);
+        if (!result.ok && result.status === 404 && canOverzoom) {
+            return overzoomTileResponse(request, tileSource, zoom, tileX, tileY, startTime);
+        }
 
-        try {
-            const upstreamResponse = await fetch(upstreamUrl, {
-                signal: controller.signal,
-                headers: {
-                    'User-Agent': 'AUS.MAPPING/1.0 (Tile Cache Proxy)',
-                },
-            });
-
-            clearTimeout(timeoutId);
-
-            if (!upstreamResponse.ok) {
-                console.error(
-                    `[TileCache] Upstream error ${upstreamResponse.status} for ${tileSource}/${z}/${x}/${y}`
-                );
-                return new NextResponse('Tile not found', { status: upstreamResponse.status });
-            }
+        if (!result.ok) {
+            recordRequest(tileSource, 'error', startTime);
+            return new NextResponse(result.message, { status: result.status });
+        }
 
-            // Get tile data as buffer
-            const arrayBuffer = await upstreamResponse.arrayBuffer();
-            const buffer = Buffer.from(arrayBuffer);
-            const contentType =
-                upstreamResponse.headers.get('content-type') || sourceConfig.contentType;
-
-            // Store in Redis asynchronously (don't block response)
-            TileCache.set(tileSource, zoom, tileX, tileY, buffer, contentType).catch((err) => {
-                console.error(`[TileCache] Failed to cache ${tileSource}/${z}/${x}/${y}:`, err);
-            });
-
-            const totalTime = Date.now() - startTime;
-            console.log(`[TileCache] STORED ${tileSource}/${z}/${x}/${y} (${totalTime}ms)`);
-
-            return new NextResponse(new Uint8Array(buffer), {
-                status: 200,
-                headers: {
-                    'Content-Type': contentType,
-                    'Cache-Control': 'public, max-age=604800, immutable', // 7 days browser cache
-                    'X-Cache-Status': 'MISS',
-                    'X-Cache-Time': `${totalTime}ms`,
-                    'Access-Control-Allow-Origin': '*',
-                },
-            });
-        } catch (fetchError: any) {
-            clearTimeout(timeoutId);
-
-            if (fetchError.name === 'AbortError') {
-                console.error(`[TileCache] Timeout fetching ${tileSource}/${z}/${x}/${y}`);
-                return new NextResponse('Tile request timeout', { status: 504 });
-            }
+        const contentEncoding = detectContentEncoding(result.data);
+        const etag = TileCache.computeEtag(result.data);
+        const cacheStatus = origin === 'upstream' ? 'MISS' : 'COALESCED';
+        const totalTime = Date.now() - startTime;
+        const isFallback = result.source !== tileSource;
+        recordRequest(tileSource, origin === 'upstream' ? 'miss' : 'coalesced', startTime);
+        console.log(`[TileCache] ${origin === 'upstream' ? 'STORED' : origin.toUpperCase()} ${tileSource}/${z}/${x}/${y} via ${result.upstream ?? 'cache'} (${totalTime}ms)`);
 
-            console.error(`[TileCache] Fetch error for ${tileSource}/${z}/${x}/${y}:`, fetchError);
-            return new NextResponse('Failed to fetch tile', { status: 502 });
+        if (!isFallback && isNotModified(request, etag, result.lastModified)) {
+            return notModifiedResponse(etag, cacheStatus, cors);
         }
+
+        return new NextResponse(new Uint8Array(result.data), {
+            status: 200,
+            headers: {
+                'Content-Type': result.contentType,
+                'Content-Length': String(result.data.length),
+                ...(contentEncoding ? { 'Content-Encoding': contentEncoding } : {}),
+                // Set when the tile came from the source's fallback (e.g. voyager for streets)
+                ...(isFallback
+                    ? { 'Cache-Control': FALLBACK_TILE_CACHE_CONTROL, 'X-Tile-Fallback': result.source }
+                    : {
+                        'Cache-Control': TILE_CACHE_CONTROL,
+                        'ETag': etag,
+                        ...(result.lastModified ? { 'Last-Modified': result.lastModified } : {}),
+                    }),
+                'X-Cache-Status': cacheStatus,
+                'X-Cache-Time': `${totalTime}ms`,
+                ...(result.upstream ? { 'X-Tile-Upstream': result.upstream } : {}),
+                ...cors,
+            },
+        });
     } catch (error) {
         console.error('[TileCache] Unexpected error:', error);
         return new NextResponse('Internal server error', { status: 500 });
@@ -213,13 +329,13 @@ export async function GET(
 }
 
 // Preflight CORS
-export async function OPTIONS() {
+export async function OPTIONS(request: NextRequest) {
     return new NextResponse(null, {
         status: 200,
         headers: {
-            'Access-Control-Allow-Origin': '*',
+            ...corsHeaders(request),
             'Access-Control-Allow-Methods': 'GET, OPTIONS',
-            'Access-Control-Allow-Headers': 'Content-Type',
+            'Access-Control-Allow-Headers': 'Content-Type, If-None-Match, If-Modified-Since, X-API-Key',
         },
     });
 }
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { TileCache } from '@/app/lib/redis';
+import { requireTileAdmin } from '@/app/lib/tile-admin';
+import { getOverzoomCacheId, isTileSourceId } from '@/app/lib/tile-sources';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const BodySchema = z.object({
+    source: z.string().refine(isTileSourceId, 'Unknown tile source'),
+});
+
+/**
+ * POST /api/tiles/namespace
+ * Bump a source's cache namespace (tile:v1 -> tile:v2 ...) so every cached tile of it is
+ * invalidated at once, then remove the keys left under older versions.
+ * Body: { source }
+ */
+export async function POST(request: NextRequest) {
+    const unauthorized = requireTileAdmin(request);
+    if (unauthorized) {
+        return unauthorized;
+    }
+
+    const parsed = BodySchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+        return NextResponse.json(
+            { status: 'error', error: 'Invalid namespace request', issues: parsed.error.issues },
+            { status: 400 }
+        );
+    }
+
+    const { source } = parsed.data;
+
+    try {
+        const { version, removed } = await TileCache.bumpNamespace(source);
+        // Overzoomed tiles were made from the old tiles - invalidate them with their source
+        const overzoom = await TileCache.bumpNamespace(getOverzoomCacheId(source));
+
+        return NextResponse.json({
+            status: 'ok',
+            source,
+            namespace: `tile:v${version}`,
+            removed,
+            overzoomRemoved: overzoom.removed,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('[TileAdmin] Namespace bump error:', error);
+        return NextResponse.json({ status: 'error', error: 'Failed to bump namespace' }, { status: 500 });
+    }
+}
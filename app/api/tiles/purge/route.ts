@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { TileCache } from '@/app/lib/redis';
+import { requireTileAdmin } from '@/app/lib/tile-admin';
+import { getOverzoomCacheId, isTileSourceId } from '@/app/lib/tile-sources';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const BodySchema = z.object({
+    source: z.string().refine(isTileSourceId, 'Unknown tile source'),
+    minZoom: z.number().int().min(0).max(24).optional(),
+    maxZoom: z.number().int().min(0).max(24).optional(),
+    bbox: z
+        .object({
+            w: z.number().min(-180).max(180),
+            s: z.number().min(-90).max(90),
+            e: z.number().min(-180).max(180),
+            n: z.number().min(-90).max(90),
+        })
+        .refine((bbox) => bbox.w <= bbox.e && bbox.s <= bbox.n, 'bbox must be west <= east and south <= north')
+        .optional(),
+}).refine(
+    (body) => body.minZoom === undefined || body.maxZoom === undefined || body.minZoom <= body.maxZoom,
+    'minZoom must not exceed maxZoom'
+);
+
+/**
+ * POST /api/tiles/purge
+ * Delete cached tiles of one source, optionally limited to a zoom range and lon/lat bbox.
+ * Body: { source, minZoom?, maxZoom?, bbox?: { w, s, e, n } }
+ */
+export async function POST(request: NextRequest) {
+    const unauthorized = requireTileAdmin(request);
+    if (unauthorized) {
+        return unauthorized;
+    }
+
+    const parsed = BodySchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+        return NextResponse.json(
+            { status: 'error', error: 'Invalid purge request', issues: parsed.error.issues },
+            { status: 400 }
+        );
+    }
+
+    const { source, ...filter } = parsed.data;
+
+    try {
+        const { scanned, removed } = await TileCache.purge(source, filter);
+        // Overzoomed tiles at the purged levels and deeper may have been made from purged parents
+        const overzoom = await TileCache.purge(getOverzoomCacheId(source), { minZoom: filter.minZoom, bbox: filter.bbox });
+
+        return NextResponse.json({
+            status: 'ok',
+            source,
+            filter,
+            scanned,
+            removed,
+            overzoomRemoved: overzoom.removed,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('[TileAdmin] Purge error:', error);
+        return NextResponse.json({ status: 'error', error: 'Failed to purge tiles' }, { status: 500 });
+    }
+}
@@ -0,0 +1,173 @@
+import { after, NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireTileAdmin } from '@/app/lib/tile-admin';
+import { TILE_SOURCES, TileSourceDefinition, isArchiveSource, isTileSourceId } from '@/app/lib/tile-sources';
+import {
+    DEFAULT_SEED_RADIUS_KM,
+    MAX_SEED_CONCURRENCY,
+    MAX_SEED_TILES,
+    cancelSeedJob,
+    createSeedJob,
+    estimateSeedTiles,
+    getSeedJob,
+    resolveSeedRegion,
+    runSeedJob,
+} from '@/app/lib/tile-seeder';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+// Seeding continues after the response - give it as long as the platform allows
+export const maxDuration = 800;
+
+const BodySchema = z.object({
+    sources: z.array(z.string().refine(isTileSourceId, 'Unknown tile source')).min(1),
+    minZoom: z.number().int().min(0).max(22),
+    maxZoom: z.number().int().min(0).max(22),
+    bbox: z
+        .object({
+            w: z.number().min(-180).max(180),
+            s: z.number().min(-90).max(90),
+            e: z.number().min(-180).max(180),
+            n: z.number().min(-90).max(90),
+        })
+        .refine((bbox) => bbox.w <= bbox.e && bbox.s <= bbox.n, 'bbox must be west <= east and south <= north')
+        .optional(),
+    // FLIGHT_DECK_DESTINATIONS city or state, or a CITIES entry
+    region: z.string().min(1).optional(),
+    radiusKm: z.number().positive().max(200).default(DEFAULT_SEED_RADIUS_KM),
+    concurrency: z.number().int().min(1).max(MAX_SEED_CONCURRENCY).default(4),
+    // Only return the estimate
+    dryRun: z.boolean().default(false),
+}).refine((body) => body.minZoom <= body.maxZoom, 'minZoom must not exceed maxZoom')
+    .refine((body) => Boolean(body.bbox) !== Boolean(body.region), 'Provide either bbox or region');
+
+/**
+ * POST /api/tiles/seed
+ * Estimate and start a seeding job for a bbox or named region.
+ * Body: { sources, minZoom, maxZoom, bbox?: { w, s, e, n }, region?, radiusKm?, concurrency?, dryRun? }
+ */
+export async function POST(request: NextRequest) {
+    const unauthorized = requireTileAdmin(request);
+    if (unauthorized) {
+        return unauthorized;
+    }
+
+    const parsed = BodySchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+        return NextResponse.json(
+            { status: 'error', error: 'Invalid seed request', issues: parsed.error.issues },
+            { status: 400 }
+        );
+    }
+
+    const { sources, minZoom, maxZoom, region, radiusKm, concurrency, dryRun } = parsed.data;
+
+    const blocked = sources.filter((source) => (TILE_SOURCES[source] as TileSourceDefinition).allowSeeding === false);
+    if (blocked.length > 0) {
+        return NextResponse.json(
+            { status: 'error', error: `Bulk downloads are not permitted for: ${blocked.join(', ')}` },
+            { status: 400 }
+        );
+    }
+
+    // Archive sources never touch Redis, so there is nothing to warm
+    const local = sources.filter((source) => isArchiveSource(TILE_SOURCES[source]));
+    if (local.length > 0) {
+        return NextResponse.json(
+            { status: 'error', error: `Served from local tile archives, nothing to seed: ${local.join(', ')}` },
+            { status: 400 }
+        );
+    }
+
+    const bbox = parsed.data.bbox ?? (region ? resolveSeedRegion(region, radiusKm) : null);
+    if (!bbox) {
+        return NextResponse.json({ status: 'error', error: `Unknown region: ${region}` }, { status: 400 });
+    }
+
+    const estimate = estimateSeedTiles(sources, bbox, minZoom, maxZoom);
+    const total = Object.values(estimate).reduce((sum, count) => sum + count, 0);
+
+    if (dryRun) {
+        return NextResponse.json({ status: 'ok', bbox, estimate, total });
+    }
+
+    if (total > MAX_SEED_TILES) {
+        return NextResponse.json(
+            { status: 'error', error: `Job covers ${total} tiles (limit ${MAX_SEED_TILES}) - narrow the area or zoom range`, estimate, total },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const job = await createSeedJob({ sources, minZoom, maxZoom, bbox, region, concurrency });
+
+        // Run after the response so the caller can poll progress straight away
+        after(() => runSeedJob(job.id));
+
+        return NextResponse.json({ status: 'ok', job, estimate }, { status: 202 });
+    } catch (error) {
+        console.error('[TileSeeder] Failed to start job:', error);
+        return NextResponse.json({ status: 'error', error: 'Failed to start seed job' }, { status: 500 });
+    }
+}
+
+/**
+ * GET /api/tiles/seed?id=...
+ * Progress of a seeding job.
+ */
+export async function GET(request: NextRequest) {
+    const unauthorized = requireTileAdmin(request);
+    if (unauthorized) {
+        return unauthorized;
+    }
+
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+        return NextResponse.json({ status: 'error', error: 'Missing job id' }, { status: 400 });
+    }
+
+    try {
+        const job = await getSeedJob(id);
+        if (!job) {
+            return NextResponse.json({ status: 'error', error: 'Job not found' }, { status: 404 });
+        }
+
+        const processed = job.fetched + job.skipped + job.failed;
+        return NextResponse.json({
+            status: 'ok',
+            job,
+            progress: job.total > 0 ? processed / job.total : 1,
+        });
+    } catch (error) {
+        console.error('[TileSeeder] Failed to read job:', error);
+        return NextResponse.json({ status: 'error', error: 'Failed to read seed job' }, { status: 500 });
+    }
+}
+
+/**
+ * DELETE /api/tiles/seed?id=...
+ * Cancel a running seeding job.
+ */
+export async function DELETE(request: NextRequest) {
+    const unauthorized = requireTileAdmin(request);
+    if (unauthorized) {
+        return unauthorized;
+    }
+
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+        return NextResponse.json({ status: 'error', error: 'Missing job id' }, { status: 400 });
+    }
+
+    try {
+        const job = await cancelSeedJob(id);
+        if (!job) {
+            return NextResponse.json({ status: 'error', error: 'Job not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ status: 'ok', job });
+    } catch (error) {
+        console.error('[TileSeeder] Failed to cancel job:', error);
+        return NextResponse.json({ status: 'error', error: 'Failed to cancel seed job' }, { status: 500 });
+    }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders, guardApiRequest } from '@/app/lib/api-access';
+import { issueTileSession, setTileSessionCookie } from '@/app/lib/tile-session';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/tiles/session
+ * Renew the tile session cookie - the map calls this periodically so a tab left open outlives the
+ * cookie set on page load. expiresAt is null when tile signing is disabled.
+ */
+export async function GET(request: NextRequest) {
+    const denied = await guardApiRequest(request, 'tiles');
+    if (denied) {
+        return denied;
+    }
+
+    const session = issueTileSession();
+    const response = NextResponse.json(
+        { status: 'ok', expiresAt: session?.expiresAt.toISOString() ?? null },
+        { headers: { 'Cache-Control': 'no-store', ...corsHeaders(request) } }
+    );
+
+    if (session) {
+        setTileSessionCookie(request, response, session);
+    }
+
+    return response;
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { signTileSource } from '@/app/lib/api-access';
+import { requireTileAdmin } from '@/app/lib/tile-admin';
+import { TILE_SOURCES, getTileSuffix, isTileSourceId } from '@/app/lib/tile-sources';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Longest a signed URL may stay valid (1 year)
+const MAX_EXPIRES_IN = 365 * 24 * 60 * 60;
+
+const BodySchema = z.object({
+    source: z.string().refine(isTileSourceId, 'Unknown tile source'),
+    expiresIn: z.number().int().min(60).max(MAX_EXPIRES_IN).default(7 * 24 * 60 * 60),
+});
+
+/**
+ * POST /api/tiles/sign
+ * Issue a signed tile URL template for clients outside the allowed origins (GIS apps, scripts).
+ * Body: { source, expiresIn? (seconds, default 7 days) }
+ */
+export async function POST(request: NextRequest) {
+    const unauthorized = requireTileAdmin(request);
+    if (unauthorized) {
+        return unauthorized;
+    }
+
+    const parsed = BodySchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+        return NextResponse.json(
+            { status: 'error', error: 'Invalid sign request', issues: parsed.error.issues },
+            { status: 400 }
+        );
+    }
+
+    const { source, expiresIn } = parsed.data;
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const query = signTileSource(source, expires);
+
+    if (!query) {
+        return NextResponse.json({ status: 'error', error: 'Tile signing is disabled (TILE_SIGNING_SECRET not set)' }, { status: 503 });
+    }
+
+    const suffix = getTileSuffix(TILE_SOURCES[source]);
+
+    return NextResponse.json({
+        status: 'ok',
+        source,
+        url: `${request.nextUrl.origin}/api/tiles/${source}/{z}/{x}/{y}${suffix}?${query}`,
+        expiresAt: new Date(expires * 1000).toISOString(),
+    });
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { TILE_SOURCE_IDS, getClientCachePolicy } from '@/app/lib/tile-sources';
+
+export const dynamic = 'force-static';
+
+/**
+ * GET /api/tiles/sources
+ * Caching manifest for the tile service worker: which sources are proxied, and each
+ * source's TTL per zoom and browser cache budget (derived from the tile source registry).
+ */
+export async function GET() {
+    return NextResponse.json(
+        {
+            sources: Object.fromEntries(TILE_SOURCE_IDS.map((id) => [id, getClientCachePolicy(id)])),
+        },
+        {
+            headers: {
+                'Cache-Control': 'public, max-age=3600',
+            },
+        }
+    );
+}
@@ -1,16 +1,36 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { TileCache } from '@/app/lib/redis';
+import { UpstreamHealth } from '@/app/lib/tile-health';
+import { isTileSourceId } from '@/app/lib/tile-sources';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET() {
+/**
+ * GET /api/tiles/stats?source=satellite
+ * Per-source and per-zoom tile counts and bytes, hit/miss ratios and average latency.
+ * The optional source parameter limits the report to one source.
+ */
+export async function GET(request: NextRequest) {
+    const source = request.nextUrl.searchParams.get('source');
+
+    if (source !== null && !isTileSourceId(source)) {
+        return NextResponse.json(
+            {
+                status: 'error',
+                error: `Unknown tile source: ${source}`,
+            },
+            { status: 400 }
+        );
+    }
+
     try {
-        const stats = await TileCache.getStats();
+        const stats = await TileCache.getStats(source ?? undefined);
 
         return NextResponse.json({
             status: 'ok',
             cache: {
                 redis: stats,
+                upstreams: UpstreamHealth.snapshot(),
                 info: 'Check browser console for service worker cache stats',
             },
             timestamp: new Date().toISOString(),
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders, guardApiRequest } from '@/app/lib/api-access';
+import { MAX_ELEVATION_ZOOM, getTerrainRgbTile } from '@/app/lib/elevation';
+import { TILE_SOURCES } from '@/app/lib/tile-sources';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Same lifetime as the terrain tiles it is made from
+const TERRAIN_RGB_CACHE_CONTROL = 'public, max-age=604800';
+
+type TerrainRgbRouteParams = { z: string; x: string; y: string };
+
+/**
+ * GET /api/tiles/terrain-rgb/{z}/{x}/{y}[.png]
+ * The `terrain` tile re-encoded as Mapbox Terrain-RGB, for clients that don't read Terrarium.
+ * Signed URLs and tile sessions for the `terrain` source are accepted.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<TerrainRgbRouteParams> }) {
+    const denied = await guardApiRequest(request, 'tiles', { tileSource: 'terrain' });
+    if (denied) {
+        return denied;
+    }
+
+    const { z, x, y } = await params;
+    const yMatch = /^(\d+)(\.png)?$/.exec(y);
+    const zoom = parseInt(z, 10);
+    const tileX = parseInt(x, 10);
+    const tileY = yMatch ? parseInt(yMatch[1], 10) : NaN;
+
+    if (isNaN(zoom) || isNaN(tileX) || isNaN(tileY)) {
+        return new NextResponse('Invalid tile coordinates', { status: 400 });
+    }
+
+    if (zoom < TILE_SOURCES.terrain.minZoom || zoom > MAX_ELEVATION_ZOOM) {
+        return new NextResponse('Invalid zoom level', { status: 400 });
+    }
+
+    const maxTile = Math.pow(2, zoom);
+    if (tileX < 0 || tileX >= maxTile || tileY < 0 || tileY >= maxTile) {
+        return new NextResponse('Tile coordinates out of bounds', { status: 400 });
+    }
+
+    try {
+        const data = await getTerrainRgbTile(zoom, tileX, tileY);
+        if (!data) {
+            return new NextResponse('Terrain tile unavailable', { status: 502, headers: { 'Cache-Control': 'no-store' } });
+        }
+
+        return new NextResponse(new Uint8Array(data), {
+            headers: {
+                'Content-Type': 'image/png',
+                'Content-Length': String(data.length),
+                'Cache-Control': TERRAIN_RGB_CACHE_CONTROL,
+                ...corsHeaders(request),
+            },
+        });
+    } catch (error) {
+        console.error(`[Elevation] Terrain-RGB ${z}/${x}/${y} error:`, error);
+        return new NextResponse('Failed to encode terrain tile', { status: 500 });
+    }
+}
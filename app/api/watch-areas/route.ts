@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ScanQuota } from '@/app/lib/scan-quota';
+import { requireTileAdmin } from '@/app/lib/tile-admin';
+import {
+    DEFAULT_SCAN_INTERVAL_MINUTES,
+    MIN_SCAN_INTERVAL_MINUTES,
+    createWatchArea,
+    deleteWatchArea,
+    listWatchAreas,
+} from '@/app/lib/watch-areas';
+import { estimateScanRequests } from '@/app/lib/waze-scan';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const LngLatSchema = z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]);
+
+const BodySchema = z.object({
+    name: z.string().trim().min(1).max(255),
+    bbox: z
+        .object({
+            w: z.number().min(-180).max(180),
+            s: z.number().min(-90).max(90),
+            e: z.number().min(-180).max(180),
+            n: z.number().min(-90).max(90),
+        })
+        .refine((bbox) => bbox.w < bbox.e && bbox.s < bbox.n, 'bbox must be west < east and south < north')
+        .optional(),
+    // Outline as [lng, lat] vertices
+    polygon: z.array(LngLatSchema).min(3).max(1000).optional(),
+    intervalMinutes: z.number().int().min(MIN_SCAN_INTERVAL_MINUTES).max(24 * 60).default(DEFAULT_SCAN_INTERVAL_MINUTES),
+    enabled: z.boolean().default(true),
+}).refine((body) => Boolean(body.bbox) !== Boolean(body.polygon), 'Provide either bbox or polygon');
+
+/** Postgres unique violation, possibly wrapped by drizzle */
+function isUniqueViolation(error: unknown): boolean {
+    const { code, cause } = (error ?? {}) as { code?: string; cause?: { code?: string } };
+    return code === '23505' || cause?.code === '23505';
+}
+
+/**
+ * GET /api/watch-areas
+ * Watch areas with their last scan, plus today's request budget and the requests the schedule needs per day
+ * (a lower bound: areas with more alerts than one request returns take extra requests to refine).
+ */
+export async function GET(request: NextRequest) {
+    const unauthorized = requireTileAdmin(request);
+    if (unauthorized) {
+        return unauthorized;
+    }
+
+    try {
+        const areas = await listWatchAreas();
+        const plannedDailyRequests = areas
+            .filter((area) => area.enabled)
+            .reduce((sum, area) => {
+                const requestsPerScan = estimateScanRequests({ w: area.west, s: area.south, e: area.east, n: area.north });
+                return sum + requestsPerScan * Math.ceil((24 * 60) / area.intervalMinutes);
+            }, 0);
+        const quota = await ScanQuota.getUsage().catch((error) => {
+            console.error('[WatchAreas] Failed to read request budget:', error);
+            return null;
+        });
+
+        return NextResponse.json({ status: 'ok', areas, plannedDailyRequests, quota });
+    } catch (error) {
+        console.error('[WatchAreas] Failed to list watch areas:', error);
+        return NextResponse.json({ status: 'error', error: 'Failed to list watch areas' }, { status: 500 });
+    }
+}
+
+/**
+ * POST /api/watch-areas
+ * Add a watch area.
+ * Body: { name, bbox?: { w, s, e, n }, polygon?: [[lng, lat], ...], intervalMinutes?, enabled? }
+ */
+export async function POST(request: NextRequest) {
+    const unauthorized = requireTileAdmin(request);
+    if (unauthorized) {
+        return unauthorized;
+    }
+
+    const parsed = BodySchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+        return NextResponse.json(
+            { status: 'error', error: 'Invalid watch area', issues: parsed.error.issues },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const area = await createWatchArea(parsed.data);
+        return NextResponse.json({ status: 'ok', area }, { status: 201 });
+    } catch (error) {
+        if (isUniqueViolation(error)) {
+            return NextResponse.json(
+                { status: 'error', error: `A watch area named "${parsed.data.name}" already exists` },
+                { status: 409 }
+            );
+        }
+        console.error('[WatchAreas] Failed to create watch area:', error);
+        return NextResponse.json({ status: 'error', error: 'Failed to create watch area' }, { status: 500 });
+    }
+}
+
+/**
+ * DELETE /api/watch-areas?id=...
+ * Remove a watch area (its recorded alerts stay).
+ */
+export async function DELETE(request: NextRequest) {
+    const unauthorized = requireTileAdmin(request);
+    if (unauthorized) {
+        return unauthorized;
+    }
+
+    const id = Number(request.nextUrl.searchParams.get('id'));
+    if (!Number.isInteger(id) || id <= 0) {
+        return NextResponse.json({ status: 'error', error: 'Missing or invalid watch area id' }, { status: 400 });
+    }
+
+    try {
+        if (!(await deleteWatchArea(id))) {
+            return NextResponse.json({ status: 'error', error: 'Watch area not found' }, { status: 404 });
+        }
+        return NextResponse.json({ status: 'ok', id });
+    } catch (error) {
+        console.error('[WatchAreas] Failed to delete watch area:', error);
+        return NextResponse.json({ status: 'error', error: 'Failed to delete watch area' }, { status: 500 });
+    }
+}
@@ -0,0 +1,40 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { runDueWatchAreaScans } from '@/app/lib/watch-areas';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+// One run scans every due area in turn
+export const maxDuration = 300;
+
+/** Vercel Cron sends `Authorization: Bearer <CRON_SECRET>`; the tile admin token works too */
+function isAuthorized(request: NextRequest): boolean {
+    const provided = Buffer.from((request.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, ''));
+
+    return [process.env.CRON_SECRET, process.env.TILE_ADMIN_TOKEN].some((secret) => {
+        if (!secret) return false;
+        const expected = Buffer.from(secret);
+        return provided.length === expected.length && timingSafeEqual(provided, expected);
+    });
+}
+
+/**
+ * GET /api/watch-areas/run
+ * Scan the watch areas that are due, within today's request budget.
+ */
+export async function GET(request: NextRequest) {
+    if (!isAuthorized(request)) {
+        return NextResponse.json(
+            { status: 'error', error: 'Unauthorized' },
+            { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+        );
+    }
+
+    try {
+        const summary = await runDueWatchAreaScans();
+        return NextResponse.json({ status: 'ok', ...summary });
+    } catch (error) {
+        console.error('[WatchAreas] Run failed:', error);
+        return NextResponse.json({ status: 'error', error: 'Watch area run failed' }, { status: 500 });
+    }
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import type maplibregl from 'maplibre-gl';
+import { Mountain } from 'lucide-react';
+
+interface CursorElevationProps {
+  // Null until the map has loaded
+  map: maplibregl.Map | null;
+}
+
+// Look up the altitude once the cursor rests this long, so moving the mouse doesn't spend the rate limit
+const LOOKUP_DELAY_MS = 250;
+
+// ~1m at the equator - nearby cursor positions share the browser's cached lookup
+const COORD_DECIMALS = 5;
+
+interface Reading {
+  lng: number;
+  lat: number;
+  // Null where no terrain is available, undefined until the first lookup returns
+  elevation: number | null | undefined;
+}
+
+// Altitude under the mouse cursor, from GET /api/elevation
+export const CursorElevation: React.FC<CursorElevationProps> = ({ map }) => {
+  const [reading, setReading] = useState<Reading | null>(null);
+
+  useEffect(() => {
+    if (!map) return;
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let controller: AbortController | null = null;
+
+    const cancel = () => {
+      if (timer) clearTimeout(timer);
+      controller?.abort();
+      timer = null;
+      controller = null;
+    };
+
+    const onMove = (e: maplibregl.MapMouseEvent) => {
+      cancel();
+      const lng = Number(e.lngLat.wrap().lng.toFixed(COORD_DECIMALS));
+      const lat = Number(e.lngLat.lat.toFixed(COORD_DECIMALS));
+      // Keep showing the last altitude until the new one arrives
+      setReading((prev) => ({ lng, lat, elevation: prev?.elevation }));
+
+      timer = setTimeout(() => {
+        const request = new AbortController();
+        controller = request;
+
+        fetch(`/api/elevation?lng=${lng}&lat=${lat}`, { signal: request.signal })
+          .then(async (res) => {
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+            setReading({ lng, lat, elevation: data.elevation });
+          })
+          .catch((error) => {
+            if (request.signal.aborted) return;
+            console.warn('[CursorElevation] Lookup failed:', error);
+            setReading({ lng, lat, elevation: null });
+          });
+      }, LOOKUP_DELAY_MS);
+    };
+
+    const onOut = () => {
+      cancel();
+      setReading(null);
+    };
+
+    map.on('mousemove', onMove);
+    map.on('mouseout', onOut);
+
+    return () => {
+      cancel();
+      map.off('mousemove', onMove);
+      map.off('mouseout', onOut);
+    };
+  }, [map]);
+
+  if (!reading) return null;
+
+  return (
+    <div className="fixed bottom-6 left-6 z-[9997] pointer-events-none flex items-center gap-2 px-3 py-2 bg-black/80 border border-green-500/30 rounded-lg backdrop-blur-xl font-mono text-[10px] text-white/70 tabular-nums">
+      <Mountain size={12} className="text-green-400" />
+      <span className="text-green-400 font-bold">
+        {reading.elevation === undefined ? '…' : reading.elevation === null ? '—' : `${Math.round(reading.elevation)} m`}
+      </span>
+      <span>{reading.lat.toFixed(4)}°, {reading.lng.toFixed(4)}°</span>
+    </div>
+  );
+};
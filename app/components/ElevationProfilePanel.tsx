@@ -0,0 +1,255 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Check, PenLine, Route, Trash2, X } from 'lucide-react';
+import type { ElevationProfile, ProfileSample } from '../lib/elevation';
+import type { ProfileDrawMode, ProfileLine } from '../map/profile/ProfileDrawTool';
+
+interface ElevationProfilePanelProps {
+  // Completed line to profile, or null before one is drawn
+  line: ProfileLine | null;
+  mode: ProfileDrawMode;
+  onDraw: () => void;
+  onPickJam: () => void;
+  onFinish: () => void;
+  onClear: () => void;
+  onClose: () => void;
+  // Point under the chart cursor, null when the cursor leaves the chart
+  onHover: (point: [number, number] | null) => void;
+}
+
+// Chart drawing area in SVG units
+const CHART_WIDTH = 560;
+const CHART_HEIGHT = 140;
+
+// Grades are measured over at least this distance so single noisy samples don't dominate
+const MIN_GRADE_RUN_M = 50;
+
+const formatDistance = (meters: number) =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(2)} km` : `${Math.round(meters)} m`;
+
+const formatGrade = (grade: number) => `${grade > 0 ? '+' : ''}${grade.toFixed(1)}%`;
+
+// Steepest grade (percent, signed) between samples at least MIN_GRADE_RUN_M apart
+const maxGrade = (samples: ProfileSample[]) => {
+  const known = samples.filter((s): s is ProfileSample & { elevation: number } => s.elevation !== null);
+  let steepest = 0;
+  let start = 0;
+
+  for (let end = 1; end < known.length; end++) {
+    while (start < end - 1 && known[end].distance - known[start + 1].distance >= MIN_GRADE_RUN_M) {
+      start++;
+    }
+    const run = known[end].distance - known[start].distance;
+    if (run <= 0) continue;
+
+    const grade = ((known[end].elevation - known[start].elevation) / run) * 100;
+    if (Math.abs(grade) > Math.abs(steepest)) steepest = grade;
+  }
+
+  return steepest;
+};
+
+// SVG path through the samples, with gaps where terrain is missing
+const buildChart = (profile: ElevationProfile) => {
+  const min = profile.minElevation ?? 0;
+  const range = Math.max((profile.maxElevation ?? 0) - min, 10);
+  const toX = (distance: number) => (profile.distance > 0 ? (distance / profile.distance) * CHART_WIDTH : 0);
+  const toY = (elevation: number) => CHART_HEIGHT - ((elevation - min) / range) * (CHART_HEIGHT - 10) - 5;
+
+  let path = '';
+  let penDown = false;
+  for (const sample of profile.samples) {
+    if (sample.elevation === null) {
+      penDown = false;
+      continue;
+    }
+    path += `${penDown ? 'L' : 'M'}${toX(sample.distance).toFixed(1)},${toY(sample.elevation).toFixed(1)}`;
+    penDown = true;
+  }
+
+  return { path, toX, toY };
+};
+
+export const ElevationProfilePanel: React.FC<ElevationProfilePanelProps> = ({
+  line,
+  mode,
+  onDraw,
+  onPickJam,
+  onFinish,
+  onClear,
+  onClose,
+  onHover,
+}) => {
+  // Result for the current line - the panel is keyed by line, so a new line starts empty
+  const [result, setResult] = useState<{ profile: ElevationProfile } | { error: string } | null>(null);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!line) return;
+    let cancelled = false;
+
+    fetch('/api/elevation', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ line }),
+    })
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(res.status === 429 ? 'Too many requests - try again shortly' : data.error || `HTTP ${res.status}`);
+        }
+        return data as ElevationProfile;
+      })
+      .then((profile) => {
+        if (!cancelled) setResult({ profile });
+      })
+      .catch((error) => {
+        console.error('[ElevationProfile] Failed to load profile:', error);
+        if (!cancelled) setResult({ error: error instanceof Error ? error.message : 'Failed to load profile' });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [line]);
+
+  const profile = result && 'profile' in result ? result.profile : null;
+  const chart = useMemo(() => (profile ? buildChart(profile) : null), [profile]);
+  const steepest = useMemo(() => (profile ? maxGrade(profile.samples) : 0), [profile]);
+  const hovered = profile && hoverIndex !== null ? profile.samples[hoverIndex] : null;
+
+  const handleChartMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!profile || profile.samples.length === 0) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const along = ((e.clientX - rect.left) / rect.width) * profile.distance;
+    let nearest = 0;
+    profile.samples.forEach((sample, i) => {
+      if (Math.abs(sample.distance - along) < Math.abs(profile.samples[nearest].distance - along)) nearest = i;
+    });
+
+    setHoverIndex(nearest);
+    onHover([profile.samples[nearest].lng, profile.samples[nearest].lat]);
+  };
+
+  const handleChartLeave = () => {
+    setHoverIndex(null);
+    onHover(null);
+  };
+
+  const stats = profile
+    ? [
+        { label: 'Distance', value: formatDistance(profile.distance) },
+        { label: 'Ascent', value: `${Math.round(profile.ascent)} m` },
+        { label: 'Descent', value: `${Math.round(profile.descent)} m` },
+        { label: 'Max Grade', value: formatGrade(steepest) },
+      ]
+    : [];
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[9998] w-[min(640px,calc(100vw-8rem))] bg-black/90 border border-cyan-500/30 rounded-xl backdrop-blur-xl shadow-2xl p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-cyan-400 font-bold text-xs uppercase tracking-wider">Elevation Profile</div>
+        <div className="flex items-center gap-1">
+          {mode === 'drawing' ? (
+            <button
+              onClick={onFinish}
+              className="h-7 px-2 bg-green-600/30 hover:bg-green-600/40 border border-green-500/40 rounded text-white text-[10px] font-bold flex items-center gap-1"
+            >
+              <Check size={12} className="text-green-400" />
+              Finish Line
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={onDraw}
+                className="h-7 px-2 bg-cyan-600/20 hover:bg-cyan-600/30 border border-cyan-500/30 rounded text-white text-[10px] font-bold flex items-center gap-1"
+              >
+                <PenLine size={12} className="text-cyan-400" />
+                Draw Line
+              </button>
+              <button
+                onClick={onPickJam}
+                className={`h-7 px-2 border rounded text-white text-[10px] font-bold flex items-center gap-1 ${
+                  mode === 'picking'
+                    ? 'bg-orange-600/40 border-orange-500/50'
+                    : 'bg-orange-600/20 hover:bg-orange-600/30 border-orange-500/30'
+                }`}
+              >
+                <Route size={12} className="text-orange-400" />
+                Pick Jam
+              </button>
+            </>
+          )}
+          {line && (
+            <button onClick={onClear} className="p-1.5 bg-white/5 hover:bg-white/10 rounded text-white/60 hover:text-white" title="Clear line">
+              <Trash2 size={12} />
+            </button>
+          )}
+          <button onClick={onClose} className="p-1.5 bg-white/5 hover:bg-white/10 rounded text-white/60 hover:text-white" title="Close">
+            <X size={12} />
+          </button>
+        </div>
+      </div>
+
+      {!line && (
+        <div className="text-white/50 text-[11px]">
+          {mode === 'drawing' && 'Click the map to add points, double-click or Finish Line to complete.'}
+          {mode === 'picking' && 'Click a traffic jam line on the map (Police Reports must be on).'}
+          {mode === 'idle' && 'Draw a route or pick a Waze jam line to see its elevation profile.'}
+        </div>
+      )}
+
+      {line && !result && <div className="text-white/50 text-[11px]">Loading elevation...</div>}
+      {result && 'error' in result && <div className="text-red-400 text-[11px]">{result.error}</div>}
+
+      {profile && chart && (
+        <>
+          <div className="grid grid-cols-4 gap-2">
+            {stats.map((stat) => (
+              <div key={stat.label} className="bg-white/5 border border-white/10 rounded p-2">
+                <div className="text-[8px] text-white/40 uppercase font-bold mb-1">{stat.label}</div>
+                <div className="font-mono text-[11px] text-white tabular-nums">{stat.value}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="relative">
+            <svg
+              viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+              preserveAspectRatio="none"
+              className="w-full h-32 cursor-crosshair"
+              onMouseMove={handleChartMove}
+              onMouseLeave={handleChartLeave}
+            >
+              <path d={chart.path} fill="none" stroke="#22d3ee" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+              {hovered && hovered.elevation !== null && (
+                <>
+                  <line
+                    x1={chart.toX(hovered.distance)}
+                    x2={chart.toX(hovered.distance)}
+                    y1={0}
+                    y2={CHART_HEIGHT}
+                    stroke="#f97316"
+                    strokeWidth={1}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                  <circle cx={chart.toX(hovered.distance)} cy={chart.toY(hovered.elevation)} r={3} fill="#f97316" />
+                </>
+              )}
+            </svg>
+            <div className="absolute top-0 left-1 text-[9px] font-mono text-white/40">{Math.round(profile.maxElevation ?? 0)} m</div>
+            <div className="absolute bottom-0 left-1 text-[9px] font-mono text-white/40">{Math.round(profile.minElevation ?? 0)} m</div>
+          </div>
+
+          <div className="text-[10px] font-mono text-white/60 h-4">
+            {hovered
+              ? `${formatDistance(hovered.distance)} · ${hovered.elevation !== null ? `${Math.round(hovered.elevation)} m` : 'no data'}`
+              : `Sampled every ${formatDistance(profile.interval)} from z${profile.zoom} terrain`}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
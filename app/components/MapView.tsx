@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import maplibregl from 'maplibre-gl';
 import 'maplibre-gl/dist/maplibre-gl.css';
 import {
@@ -28,7 +28,8 @@ import {
     ShieldAlert,
     Car,
     Construction,
-    Camera
+    Camera,
+    ChartSpline
 } from 'lucide-react';
 
 import { MapController } from '../lib/gamepad/map-controller';
@@ -43,15 +44,27 @@ import { CameraController } from '../map/camera/CameraController';
 import { LongPressRecognizer } from '../map/input/LongPressRecognizer';
 import { GestureCancelGuard } from '../map/input/GestureCancelGuard';
 import { GamepadRouter } from '../map/input/GamepadRouter';
+import { TilePrefetcher } from '../map/prefetch/TilePrefetcher';
+import { ProfileDrawMode, ProfileDrawTool, ProfileLine } from '../map/profile/ProfileDrawTool';
 import { TargetOverlay } from '../map/ui/TargetOverlay';
 import { ModeIndicatorLED } from '../map/ui/ModeIndicatorLED';
 import { cameraModeStore, CameraModeState } from '../map/state/cameraModeStore';
 import { FlightDeckModal } from './FlightDeckModal';
 import { Toast } from './Toast';
 import { WeatherModal } from './WeatherModal';
+import { OfflinePacksPanel } from './OfflinePacksPanel';
+import { CursorElevation } from './CursorElevation';
+import { ElevationProfilePanel } from './ElevationProfilePanel';
 
 import { CITIES, AUSTRALIA_CENTER, MAP_SOURCES, MAP_STYLES } from '../lib/constants';
-import { prefetchTiles } from '../lib/service-worker';
+import { TILE_SOURCE_IDS, TileSourceId, getTileSource, getTileSourcesByRole, isTileSourceId } from '../lib/tile-sources';
+import { splitAtAntimeridian } from '../lib/tile-math';
+import { buildVectorLayers } from '../lib/vector-style';
+
+// Raster and vector layers are generated from the tile source registry
+const BASE_LAYER_SOURCES = getTileSourcesByRole('base', 'raster');
+const VECTOR_BASE_SOURCES = getTileSourcesByRole('base', 'vector');
+const OVERLAY_LAYER_SOURCES = getTileSourcesByRole('overlay');
 
 interface ViewState {
     lng: number;
@@ -106,6 +119,13 @@ export default function MapView() {
     const longPressRecognizerRef = useRef<LongPressRecognizer | null>(null);
     const gestureCancelGuardRef = useRef<GestureCancelGuard | null>(null);
     const gamepadRouterRef = useRef<GamepadRouter | null>(null);
+    const prefetcherRef = useRef<TilePrefetcher | null>(null);
+
+    // Elevation profile tool state
+    const [isProfileOpen, setIsProfileOpen] = useState(false);
+    const [profileLine, setProfileLine] = useState<ProfileLine | null>(null);
+    const [profileMode, setProfileMode] = useState<ProfileDrawMode>('idle');
+    const profileToolRef = useRef<ProfileDrawTool | null>(null);
 
     useEffect(() => {
         if (map.current || !mapContainer.current) return;
@@ -118,57 +138,22 @@ export default function MapView() {
             maxZoom: 24, // Allow maximum zoom to ground level (street view detail)
             style: {
                 version: 8,
-                sources: {
-                    'satellite-source': MAP_SOURCES.satellite as any,
-                    'terrain-source': MAP_SOURCES.terrain as any,
-                    'streets-source': MAP_SOURCES.streets as any,
-                    'topo-source': MAP_SOURCES.topo as any,
-                    'dark-source': MAP_SOURCES.dark as any,
-                    'voyager-source': MAP_SOURCES.voyager as any,
-                    'labels-source': MAP_SOURCES.labels as any,
-                },
+                sources: Object.fromEntries(
+                    TILE_SOURCE_IDS.map((id) => [`${id}-source`, MAP_SOURCES[id]])
+                ),
                 glyphs: 'https://demotiles.maplibre.org/font/{fontstack}/{range}.pbf',
                 layers: [
-                    {
-                        id: 'satellite-layer',
-                        type: 'raster',
-                        source: 'satellite-source',
-                        minzoom: 0,
-                        maxzoom: 22,
-                        layout: { visibility: 'visible' },
-                    },
-                    {
-                        id: 'streets-layer',
+                    // One raster layer per registered base source (only the active style is visible)
+                    ...BASE_LAYER_SOURCES.map((id): maplibregl.LayerSpecification => ({
+                        id: `${id}-layer`,
                         type: 'raster',
-                        source: 'streets-source',
+                        source: `${id}-source`,
                         minzoom: 0,
                         maxzoom: 22,
-                        layout: { visibility: 'none' },
-                    },
-                    {
-                        id: 'topo-layer',
-                        type: 'raster',
-                        source: 'topo-source',
-                        minzoom: 0,
-                        maxzoom: 22,
-                        layout: { visibility: 'none' },
-                    },
-                    {
-                        id: 'dark-layer',
-                        type: 'raster',
-                        source: 'dark-source',
-                        minzoom: 0,
-                        maxzoom: 22,
-                        layout: { visibility: 'none' },
-                    },
-                    {
-                        id: 'voyager-layer',
-                        type: 'raster',
-                        source: 'voyager-source',
-                        minzoom: 0,
-                        maxzoom: 22,
-                        layout: { visibility: 'none' },
-                    },
+                        layout: { visibility: id === 'satellite' ? 'visible' : 'none' },
+                    })),
+                    // Vector basemaps are styled client-side (hidden until selected)
+                    ...VECTOR_BASE_SOURCES.flatMap((id) => buildVectorLayers(id)),
                     {
                         id: 'hillshade-layer',
                         type: 'hillshade',
@@ -181,14 +166,15 @@ export default function MapView() {
                         },
                         layout: { visibility: 'visible' },
                     },
-                    {
-                        id: 'labels-layer',
+                    ...OVERLAY_LAYER_SOURCES.map((id): maplibregl.LayerSpecification => ({
+                        id: `${id}-layer`,
                         type: 'raster',
-                        source: 'labels-source',
+                        source: `${id}-source`,
                         minzoom: 0,
                         maxzoom: 22,
                         layout: { visibility: 'none' },
-                    },
+                        paint: { 'raster-opacity': getTileSource(id)?.opacity ?? 1 },
+                    })),
                 ],
             },
             center: [AUSTRALIA_CENTER.lng, AUSTRALIA_CENTER.lat],
@@ -381,10 +367,41 @@ export default function MapView() {
                 data: { type: 'FeatureCollection', features: [] }
             });
 
+            // Jams are road polylines, graded by congestion level (0 free flow - 5 standstill/closed)
+            m.addLayer({
+                id: 'waze-jam-lines',
+                type: 'line',
+                source: 'waze-source',
+                filter: ['==', ['geometry-type'], 'LineString'],
+                layout: {
+                    'line-cap': 'round',
+                    'line-join': 'round'
+                },
+                paint: {
+                    'line-color': [
+                        'step', ['coalesce', ['get', 'level'], 0],
+                        '#facc15', // Light
+                        2, '#f59e0b', // Moderate
+                        3, '#ea580c', // Heavy
+                        4, '#dc2626', // Standstill
+                        5, '#7f1d1d' // Closed
+                    ],
+                    'line-width': [
+                        'interpolate', ['linear'], ['zoom'],
+                        8, 2,
+                        12, 4,
+                        16, 8,
+                        19, 14
+                    ],
+                    'line-opacity': 0.85
+                }
+            });
+
             m.addLayer({
                 id: 'waze-heat-circles',
                 type: 'circle',
                 source: 'waze-source',
+                filter: ['==', ['geometry-type'], 'Point'],
                 paint: {
                     'circle-radius': [
                         'interpolate', ['linear'], ['zoom'],
@@ -409,6 +426,7 @@ export default function MapView() {
                 id: 'waze-labels',
                 type: 'symbol',
                 source: 'waze-source',
+                filter: ['==', ['geometry-type'], 'Point'],
                 layout: {
                     'text-field': ['get', 'type'],
                     'text-font': ['Open Sans Bold'],
@@ -442,6 +460,30 @@ export default function MapView() {
                     return date.toLocaleDateString();
                 };
 
+                const formatDuration = (ms: number) => {
+                    const minutes = Math.max(0, Math.floor(ms / 60000));
+                    if (minutes < 60) return `${minutes}m`;
+                    const hours = Math.floor(minutes / 60);
+                    if (hours < 24) return `${hours}h ${minutes % 60}m`;
+                    return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+                };
+
+                // How long the alert has been (or was) up - from the earlier of Waze's publish time and our first sighting
+                const lifecycleText = () => {
+                    const starts = [props.publishedAt, props.firstSeenAt]
+                        .map((value) => (value ? new Date(value).getTime() : NaN))
+                        .filter((time) => !Number.isNaN(time));
+                    if (starts.length === 0) return '';
+
+                    const start = Math.min(...starts);
+                    const duration = props.resolvedAt
+                        ? `Cleared after ${formatDuration(new Date(props.resolvedAt).getTime() - start)}`
+                        : `Active for ${formatDuration(Date.now() - start)}`;
+                    return props.seenCount > 1 ? `${duration} · seen in ${props.seenCount} scans` : duration;
+                };
+
+                const lifecycle = lifecycleText();
+
                 const formatType = (type: string, subtype: string) => {
                     let text = type;
                     if (subtype) {
@@ -473,6 +515,7 @@ export default function MapView() {
                                 <span class="text-white/20">|</span>
                                 <span class="text-white text-xs font-mono font-bold">${timeAgo(props.publishedAt)}</span>
                             </div>
+                            ${lifecycle ? `<div class="text-[10px] font-mono ${props.resolvedAt ? 'text-green-400' : 'text-orange-300'} mb-2">${lifecycle}</div>` : ''}
                             ${props.description ? `<div class="text-xs text-white/60 italic mt-2 border-t border-white/5 pt-2 leading-relaxed">"${props.description}"</div>` : ''}
                             <div class="flex gap-4 mt-3 text-[9px] uppercase tracking-widest font-bold pt-2 border-t border-white/5">
                                 <div title="Number of drivers who confirmed this alert" class="cursor-help group relative">
@@ -491,17 +534,72 @@ export default function MapView() {
 
             m.on('mouseenter', 'waze-heat-circles', () => { m.getCanvas().style.cursor = 'pointer'; });
             m.on('mouseleave', 'waze-heat-circles', () => { m.getCanvas().style.cursor = ''; });
+
+            // Jam details on click
+            m.on('click', 'waze-jam-lines', (e) => {
+                if (!e.features || e.features.length === 0) return;
+                // The elevation profile tool takes this click
+                if (profileToolRef.current?.getMode() === 'picking') return;
+                const props = e.features[0].properties;
+
+                const levelLabels = ['Free flow', 'Light', 'Moderate', 'Heavy', 'Standstill', 'Road closed'];
+                const formatDelay = (seconds: number) => {
+                    if (seconds < 0) return 'Closed';
+                    if (seconds < 60) return `+${Math.round(seconds)}s`;
+                    return `+${Math.round(seconds / 60)} min`;
+                };
+                const formatLength = (meters: number) =>
+                    meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters)} m`;
+
+                new maplibregl.Popup({ className: 'custom-popup' })
+                    .setLngLat(e.lngLat)
+                    .setHTML(`
+                        <div class="px-4 py-3 bg-black/90 text-white rounded-xl border border-white/10 shadow-2xl backdrop-blur-md min-w-[220px]">
+                            <div class="flex items-center justify-between mb-3">
+                                <span class="bg-orange-600 text-[10px] font-black px-2 py-0.5 rounded italic uppercase tracking-wider">JAM • ${levelLabels[props.level] ?? 'Unknown'}</span>
+                            </div>
+                            <div class="font-bold text-sm mb-0.5">${props.street || 'Unknown Street'}</div>
+                            <div class="text-xs text-white/40 uppercase font-bold tracking-wider mb-2">${props.city || 'NEARBY'}</div>
+                            <div class="flex gap-4 mt-3 text-[9px] uppercase tracking-widest font-bold pt-2 border-t border-white/5">
+                                <div><span class="text-white/40">Speed:</span> <span class="text-white">${props.speed != null ? `${Math.round(props.speed)} km/h` : '-'}</span></div>
+                                <div><span class="text-white/40">Delay:</span> <span class="text-red-400">${formatDelay(props.delay ?? 0)}</span></div>
+                                <div><span class="text-white/40">Length:</span> <span class="text-white">${props.length != null ? formatLength(props.length) : '-'}</span></div>
+                            </div>
+                        </div>
+                    `)
+                    .addTo(m);
+            });
+
+            m.on('mouseenter', 'waze-jam-lines', () => { m.getCanvas().style.cursor = 'pointer'; });
+            m.on('mouseleave', 'waze-jam-lines', () => { m.getCanvas().style.cursor = ''; });
         }
 
         // Visibility toggle
         m.setLayoutProperty('waze-heat-circles', 'visibility', isWazeEnabled ? 'visible' : 'none');
         m.setLayoutProperty('waze-labels', 'visibility', isWazeEnabled ? 'visible' : 'none');
+        m.setLayoutProperty('waze-jam-lines', 'visibility', isWazeEnabled && reportFilters.jam ? 'visible' : 'none');
 
         // Update data
         if (wazeData?.geojson) {
             (m.getSource('waze-source') as maplibregl.GeoJSONSource).setData(wazeData.geojson);
         }
-    }, [isMapReady, isWazeEnabled, wazeData]);
+    }, [isMapReady, isWazeEnabled, wazeData, reportFilters.jam]);
+
+    // Elevation profile line drawing (after the Waze layers so the line draws on top)
+    useEffect(() => {
+        if (!map.current || !isMapReady) return;
+
+        const profileTool = new ProfileDrawTool(map.current, (line) => {
+            setProfileLine(line);
+            setProfileMode('idle');
+        });
+        profileToolRef.current = profileTool;
+
+        return () => {
+            profileTool.cleanup();
+            profileToolRef.current = null;
+        };
+    }, [isMapReady]);
 
     // Map Style Switching (includes terrain and hillshade based on user toggles)
     useEffect(() => {
@@ -510,9 +608,7 @@ export default function MapView() {
         const style = MAP_STYLES.find((s) => s.id === currentStyle);
         if (!style) return;
 
-        const allRasterLayers = [
-            'satellite-layer', 'streets-layer', 'topo-layer', 'dark-layer', 'voyager-layer'
-        ];
+        const allRasterLayers = BASE_LAYER_SOURCES.map((id) => `${id}-layer`);
 
         // Hide all base raster layers
         allRasterLayers.forEach((layerId) => {
@@ -527,6 +623,24 @@ export default function MapView() {
             map.current.setLayoutProperty(baseLayerId, 'visibility', 'visible');
         }
 
+        // Vector basemaps are a group of layers sharing the source id prefix
+        VECTOR_BASE_SOURCES.forEach((sourceId) => {
+            const visibility = style.baseLayer === sourceId ? 'visible' : 'none';
+            buildVectorLayers(sourceId).forEach((layer) => {
+                if (map.current!.getLayer(layer.id)) {
+                    map.current!.setLayoutProperty(layer.id, 'visibility', visibility);
+                }
+            });
+        });
+
+        // Style overlays (WMS/WMTS layers) - labels are handled separately below
+        const overlays: readonly string[] = 'overlays' in style ? style.overlays : [];
+        OVERLAY_LAYER_SOURCES.filter((id) => id !== 'labels').forEach((id) => {
+            if (map.current!.getLayer(`${id}-layer`)) {
+                map.current!.setLayoutProperty(`${id}-layer`, 'visibility', overlays.includes(id) ? 'visible' : 'none');
+            }
+        });
+
         // Toggle labels (style default or user preference)
         if (map.current.getLayer('labels-layer')) {
             map.current.setLayoutProperty(
@@ -747,83 +861,59 @@ export default function MapView() {
         }
     }, [isWazeEnabled, fetchDatabaseAlerts]);
 
-    // Intelligent tile prefetching - predictively cache adjacent tiles
+    // Tile sources the current style shows: base layer, overlays, labels and terrain
+    const visibleTileSources = useMemo((): TileSourceId[] => {
+        const style = MAP_STYLES.find((s) => s.id === currentStyle);
+        const sources: string[] = [style?.baseLayer || 'satellite'];
+        if (style && 'overlays' in style) sources.push(...style.overlays);
+        if (style?.showLabels) sources.push('labels');
+        if (terrainEnabled) sources.push('terrain');
+        return sources.filter(isTileSourceId);
+    }, [currentStyle, terrainEnabled]);
+
+    const getOfflinePackViewport = useCallback(() => {
+        if (!map.current) return null;
+        // Raw bounds - planOfflinePack maps views on wrapped world copies or across the antimeridian back
+        const bounds = map.current.getBounds();
+        return {
+            bbox: { w: bounds.getWest(), s: bounds.getSouth(), e: bounds.getEast(), n: bounds.getNorth() },
+            zoom: map.current.getZoom(),
+        };
+    }, []);
+
+    // Predictive tile prefetching - caches tiles ahead of the camera (gamepad, orbit, flyTo, touch)
     useEffect(() => {
         if (!map.current || !isMapReady) return;
 
-        let prefetchTimeout: NodeJS.Timeout;
-
-        const handleMoveEnd = () => {
-            // Debounce prefetching to avoid excessive requests during active panning
-            clearTimeout(prefetchTimeout);
-            prefetchTimeout = setTimeout(() => {
-                const zoom = Math.floor(map.current!.getZoom());
-                const center = map.current!.getCenter();
-
-                // Convert lat/lng to tile coordinates
-                const lat2tile = (lat: number, zoom: number) =>
-                    Math.floor(((1 - Math.log(Math.tan((lat * Math.PI) / 180) + 1 / Math.cos((lat * Math.PI) / 180)) / Math.PI) / 2) * Math.pow(2, zoom));
-                const lng2tile = (lng: number, zoom: number) =>
-                    Math.floor(((lng + 180) / 360) * Math.pow(2, zoom));
-
-                const centerTileX = lng2tile(center.lng, zoom);
-                const centerTileY = lat2tile(center.lat, zoom);
-
-                // Prefetch 1 tile in each direction (3x3 grid around center)
-                const tilesToPrefetch: string[] = [];
-                const radius = 1;
-
-                for (let dx = -radius; dx <= radius; dx++) {
-                    for (let dy = -radius; dy <= radius; dy++) {
-                        const tileX = centerTileX + dx;
-                        const tileY = centerTileY + dy;
-
-                        // Prefetch tiles for current base layer
-                        const style = MAP_STYLES.find((s) => s.id === currentStyle);
-                        const baseLayer = style?.baseLayer || 'satellite';
-                        tilesToPrefetch.push(`/api/tiles/${baseLayer}/${zoom}/${tileX}/${tileY}`);
-
-                        // Also prefetch labels if enabled
-                        if (style?.showLabels) {
-                            tilesToPrefetch.push(`/api/tiles/labels/${zoom}/${tileX}/${tileY}`);
-                        }
-
-                        // Also prefetch terrain tiles if terrain is enabled
-                        if (terrainEnabled) {
-                            tilesToPrefetch.push(`/api/tiles/terrain/${zoom}/${tileX}/${tileY}`);
-                        }
-                    }
-                }
-
-                // Send prefetch request to service worker
-                prefetchTiles(tilesToPrefetch).catch(err => {
-                    console.error('[Prefetch] Error:', err);
-                });
-
-                console.log(`[Prefetch] Queued ${tilesToPrefetch.length} tiles for background caching`);
-            }, 1000); // Wait 1 second after user stops moving
-        };
-
-        map.current.on('moveend', handleMoveEnd);
+        const prefetcher = new TilePrefetcher(map.current, {
+            getGamepadVelocity: () => controllerRef.current?.getVelocity() ?? null,
+            getOrbitState: () => cameraControllerRef.current?.getOrbitController().getState() ?? null,
+        });
+        prefetcherRef.current = prefetcher;
 
         return () => {
-            map.current?.off('moveend', handleMoveEnd);
-            clearTimeout(prefetchTimeout);
+            prefetcher.cleanup();
+            prefetcherRef.current = null;
         };
-    }, [isMapReady, currentStyle, terrainEnabled]);
+    }, [isMapReady]);
+
+    useEffect(() => {
+        prefetcherRef.current?.setSources(visibleTileSources);
+    }, [isMapReady, visibleTileSources]);
 
     const fetchWazeData = async () => {
         if (!map.current) return;
         setIsWazeLoading(true);
         setIsWazeEnabled(true);
         try {
+            // The scan API only takes real longitudes - a view across the antimeridian scans its larger side
             const bounds = map.current.getBounds();
-            const bbox = {
+            const [bbox] = splitAtAntimeridian({
                 w: bounds.getWest(),
-                s: bounds.getSouth(),
+                s: Math.max(bounds.getSouth(), -90),
                 e: bounds.getEast(),
-                n: bounds.getNorth(),
-            };
+                n: Math.min(bounds.getNorth(), 90),
+            }).sort((a, b) => (b.e - b.w) - (a.e - a.w));
 
             const res = await fetch('/api/scan', {
                 method: 'POST',
@@ -831,6 +921,11 @@ export default function MapView() {
                 body: JSON.stringify({ bbox }),
             });
 
+            if (res.status === 429) {
+                // Either the per-client scan rate limit or the shared daily request budget
+                const { error } = await res.json().catch(() => ({ error: null }));
+                throw new Error(`${error || 'Scan rate limit reached'} - retry in ${res.headers.get('Retry-After')}s`);
+            }
             if (!res.ok) throw new Error('API error');
             const data = await res.json();
             setWazeData(data);
@@ -905,6 +1000,34 @@ export default function MapView() {
         });
     };
 
+    // Elevation profile tool controls
+    const startProfileDrawing = () => {
+        profileToolRef.current?.startDrawing();
+        setProfileLine(null);
+        setProfileMode('drawing');
+    };
+
+    const startJamPicking = () => {
+        profileToolRef.current?.startPicking();
+        setProfileMode('picking');
+    };
+
+    const clearProfile = () => {
+        profileToolRef.current?.clear();
+        setProfileLine(null);
+        setProfileMode('idle');
+    };
+
+    const toggleProfileTool = () => {
+        if (isProfileOpen) {
+            clearProfile();
+            setIsProfileOpen(false);
+        } else {
+            setIsProfileOpen(true);
+            startProfileDrawing();
+        }
+    };
+
     // Intercept console logs for debug panel
     useEffect(() => {
         const originalLog = console.log;
@@ -1313,6 +1436,15 @@ export default function MapView() {
                                     </section>
                                 )}
 
+                                {/* OFFLINE AREAS */}
+                                <section>
+                                    <div className="text-cyan-400 font-bold text-xs uppercase tracking-wider mb-3 flex items-center gap-2">
+                                        <div className="w-2 h-2 rounded-full bg-cyan-400 animate-pulse shadow-[0_0_8px_rgba(34,211,238,0.9)]" />
+                                        OFFLINE AREAS
+                                    </div>
+                                    <OfflinePacksPanel getViewport={getOfflinePackViewport} sources={visibleTileSources} />
+                                </section>
+
                                 {/* SYSTEM STATUS */}
                                 <section>
                                     <div className="text-green-400 font-bold text-xs uppercase tracking-wider mb-3 flex items-center gap-2">
@@ -1487,6 +1619,22 @@ export default function MapView() {
                     </div>
                 </button>
 
+                {/* Elevation Profile Button */}
+                <button
+                    onClick={toggleProfileTool}
+                    className={`group relative p-4 rounded-xl font-bold transition-all backdrop-blur-xl border-2 ${
+                        isProfileOpen
+                            ? 'bg-gradient-to-br from-cyan-600/40 to-orange-600/40 border-cyan-500/50 text-white shadow-[0_0_25px_rgba(6,182,212,0.6)] hover:shadow-[0_0_35px_rgba(6,182,212,0.8)]'
+                            : 'bg-gradient-to-br from-cyan-600/20 to-orange-600/20 border-cyan-500/30 text-cyan-300 shadow-[0_0_15px_rgba(6,182,212,0.3)] hover:shadow-[0_0_25px_rgba(6,182,212,0.5)]'
+                    } hover:scale-105 active:scale-95`}
+                >
+                    <ChartSpline size={24} className="group-hover:scale-110 transition-transform" strokeWidth={2.5} />
+                    {/* Tooltip */}
+                    <div className="absolute right-full mr-3 top-1/2 -translate-y-1/2 px-3 py-2 bg-black/90 border border-cyan-500/30 rounded-lg text-white text-xs font-bold whitespace-nowrap opacity-0 group-hover:opacity-100 pointer-events-none transition-opacity shadow-lg">
+                        Elevation Profile
+                    </div>
+                </button>
+
                 {/* Reset to Australia Button */}
                 <button
                     onClick={resetToAustralia}
@@ -1500,6 +1648,24 @@ export default function MapView() {
                 </button>
             </div>
 
+            {/* ALTITUDE UNDER THE CURSOR */}
+            <CursorElevation map={isMapReady ? map.current : null} />
+
+            {/* ELEVATION PROFILE PANEL */}
+            {isProfileOpen && (
+                <ElevationProfilePanel
+                    key={profileLine ? profileLine.join(';') : 'none'}
+                    line={profileLine}
+                    mode={profileMode}
+                    onDraw={startProfileDrawing}
+                    onPickJam={startJamPicking}
+                    onFinish={() => profileToolRef.current?.finish()}
+                    onClear={clearProfile}
+                    onClose={toggleProfileTool}
+                    onHover={(point) => profileToolRef.current?.setHoverPoint(point)}
+                />
+            )}
+
             {/* TOAST NOTIFICATION */}
             {toastMessage && (
                 <Toast
@@ -0,0 +1,288 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Download, Trash2, X, RotateCcw, Crosshair } from 'lucide-react';
+import { MAX_PACK_TILES, planOfflinePack } from '../lib/offline-packs';
+import {
+  OfflinePack,
+  cancelOfflinePack,
+  deleteOfflinePack,
+  downloadOfflinePack,
+  listOfflinePacks,
+  onOfflinePackProgress,
+} from '../lib/service-worker';
+import type { LngLatBBox } from '../lib/tile-math';
+import type { TileSourceId } from '../lib/tile-sources';
+
+interface OfflinePacksPanelProps {
+  // Current map viewport, or null before the map is ready
+  getViewport: () => { bbox: LngLatBBox; zoom: number } | null;
+  // Sources the current style shows (base layer, labels, terrain)
+  sources: TileSourceId[];
+}
+
+// Highest zoom offered for packs - beyond this tile counts explode
+const MAX_PACK_ZOOM = 18;
+
+const formatBytes = (bytes: number) => {
+  const gb = bytes / 1024 / 1024 / 1024;
+  const mb = bytes / 1024 / 1024;
+  return gb >= 1 ? `${gb.toFixed(2)}GB` : `${mb.toFixed(1)}MB`;
+};
+
+// Saved packs plus free storage (null when the Storage API is unavailable)
+const loadPackState = async () => {
+  const packs = await listOfflinePacks();
+  let availableBytes: number | null = null;
+
+  if (navigator.storage?.estimate) {
+    const estimate = await navigator.storage.estimate();
+    availableBytes = (estimate.quota || 0) - (estimate.usage || 0);
+  }
+
+  return { packs, availableBytes };
+};
+
+export const OfflinePacksPanel: React.FC<OfflinePacksPanelProps> = ({ getViewport, sources }) => {
+  const [area, setArea] = useState<LngLatBBox | null>(null);
+  const [minZoom, setMinZoom] = useState(10);
+  const [maxZoom, setMaxZoom] = useState(14);
+  const [name, setName] = useState('');
+  const [packs, setPacks] = useState<OfflinePack[]>([]);
+  const [availableBytes, setAvailableBytes] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshPacks = useCallback(() => {
+    loadPackState().then((state) => {
+      setPacks(state.packs);
+      setAvailableBytes(state.availableBytes);
+    });
+  }, []);
+
+  useEffect(() => {
+    refreshPacks();
+
+    return onOfflinePackProgress((pack) => {
+      setPacks((current) => [pack, ...current.filter((p) => p.id !== pack.id)].sort((a, b) => b.createdAt - a.createdAt));
+      if (pack.status !== 'downloading') {
+        refreshPacks();
+      }
+    });
+  }, [refreshPacks]);
+
+  const plan = useMemo(
+    () => (area ? planOfflinePack(area, minZoom, maxZoom, sources) : null),
+    [area, minZoom, maxZoom, sources]
+  );
+
+  const tooManyTiles = plan !== null && plan.tileCount > MAX_PACK_TILES;
+  const tooLarge = plan !== null && availableBytes !== null && plan.estimatedBytes > availableBytes;
+
+  const captureView = () => {
+    const viewport = getViewport();
+    if (!viewport) return;
+
+    const zoom = Math.min(Math.floor(viewport.zoom), MAX_PACK_ZOOM);
+    setArea(viewport.bbox);
+    setMinZoom(zoom);
+    setMaxZoom(Math.min(zoom + 4, MAX_PACK_ZOOM));
+    setError(null);
+  };
+
+  const startDownload = async (pack: OfflinePack, tileUrls: string[]) => {
+    // Ask the browser not to evict our storage under pressure
+    await navigator.storage?.persist?.();
+
+    if (!downloadOfflinePack(pack, tileUrls)) {
+      setError('Offline storage is not available - reload the page and try again');
+      return;
+    }
+    setPacks((current) => [pack, ...current.filter((p) => p.id !== pack.id)]);
+  };
+
+  const createPack = () => {
+    if (!plan || tooManyTiles || tooLarge || plan.tileUrls.length === 0) return;
+
+    const now = Date.now();
+    startDownload(
+      {
+        id: crypto.randomUUID(),
+        name: name.trim() || `Area ${new Date(now).toLocaleString()}`,
+        bbox: plan.bbox,
+        minZoom: plan.minZoom,
+        maxZoom: plan.maxZoom,
+        sources: plan.sources,
+        total: plan.tileCount,
+        downloaded: 0,
+        failed: 0,
+        bytes: 0,
+        status: 'downloading',
+        error: null,
+        createdAt: now,
+        updatedAt: now,
+      },
+      plan.tileUrls
+    );
+    setArea(null);
+    setName('');
+  };
+
+  // Re-plan from the stored area - the worker skips tiles it already has
+  const resumePack = (pack: OfflinePack) => {
+    const resumed = planOfflinePack(pack.bbox, pack.minZoom, pack.maxZoom, pack.sources);
+    startDownload({ ...pack, status: 'downloading' }, resumed.tileUrls);
+  };
+
+  const removePack = async (pack: OfflinePack) => {
+    try {
+      await deleteOfflinePack(pack.id);
+      setError(null);
+    } catch (deleteError) {
+      console.error('[OfflinePacks] Failed to delete pack:', deleteError);
+      setError(`Couldn't delete "${pack.name}" - try again`);
+    }
+    refreshPacks();
+  };
+
+  const zoomOptions = Array.from({ length: MAX_PACK_ZOOM + 1 }, (_, z) => z);
+
+  return (
+    <div className="bg-white/5 border border-cyan-500/20 rounded-lg p-3 space-y-3">
+      {/* Area selection */}
+      <button
+        onClick={captureView}
+        className="w-full h-9 bg-cyan-600/20 hover:bg-cyan-600/30 border border-cyan-500/30 rounded-lg text-white text-xs font-bold transition-all flex items-center justify-center gap-2"
+      >
+        <Crosshair size={14} className="text-cyan-400" />
+        {area ? 'Recapture Current View' : 'Use Current View'}
+      </button>
+
+      {area && plan && (
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Pack name"
+            className="w-full h-8 px-2 bg-black/40 border border-white/10 rounded text-white text-xs placeholder-white/30 focus:outline-none focus:border-cyan-500/50"
+          />
+
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-white/60 text-[9px] uppercase font-bold tracking-wider">
+              Min Zoom
+              <select
+                value={minZoom}
+                onChange={(e) => setMinZoom(Math.min(Number(e.target.value), maxZoom))}
+                className="mt-1 w-full h-7 bg-black/40 border border-white/10 rounded text-white text-xs"
+              >
+                {zoomOptions.map((z) => <option key={z} value={z}>{z}</option>)}
+              </select>
+            </label>
+            <label className="text-white/60 text-[9px] uppercase font-bold tracking-wider">
+              Max Zoom
+              <select
+                value={maxZoom}
+                onChange={(e) => setMaxZoom(Math.max(Number(e.target.value), minZoom))}
+                className="mt-1 w-full h-7 bg-black/40 border border-white/10 rounded text-white text-xs"
+              >
+                {zoomOptions.map((z) => <option key={z} value={z}>{z}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="bg-black/30 border border-white/10 rounded p-2">
+              <div className="text-[8px] text-white/40 uppercase font-bold mb-1">Tiles</div>
+              <div className={`font-mono text-[10px] tabular-nums ${tooManyTiles ? 'text-red-400' : 'text-white'}`}>
+                {plan.tileCount.toLocaleString()}
+              </div>
+            </div>
+            <div className="bg-black/30 border border-white/10 rounded p-2">
+              <div className="text-[8px] text-white/40 uppercase font-bold mb-1">Est. Size / Free</div>
+              <div className={`font-mono text-[10px] tabular-nums ${tooLarge ? 'text-red-400' : 'text-white'}`}>
+                ~{formatBytes(plan.estimatedBytes)} / {availableBytes !== null ? formatBytes(availableBytes) : '?'}
+              </div>
+            </div>
+          </div>
+
+          {plan.excludedSources.length > 0 && (
+            <div className="text-yellow-400/80 text-[9px]">
+              Not downloadable (provider policy): {plan.excludedSources.join(', ')}
+            </div>
+          )}
+          {tooManyTiles && (
+            <div className="text-red-400 text-[9px]">
+              Over {MAX_PACK_TILES.toLocaleString()} tiles - zoom in or lower the max zoom
+            </div>
+          )}
+
+          <button
+            onClick={createPack}
+            disabled={tooManyTiles || tooLarge || plan.tileUrls.length === 0}
+            className="w-full h-9 bg-green-600/30 hover:bg-green-600/40 disabled:opacity-40 disabled:cursor-not-allowed border border-green-500/40 rounded-lg text-white text-xs font-bold transition-all flex items-center justify-center gap-2"
+          >
+            <Download size={14} className="text-green-400" />
+            Download for Offline
+          </button>
+        </div>
+      )}
+
+      {error && <div className="text-red-400 text-[9px]">{error}</div>}
+
+      {/* Pack list */}
+      {packs.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-white/60 text-[9px] uppercase font-bold tracking-wider">Saved Areas</div>
+          {packs.map((pack) => {
+            const progress = pack.total > 0 ? (pack.downloaded + pack.failed) / pack.total : 1;
+
+            return (
+              <div key={pack.id} className="bg-black/30 border border-white/10 rounded p-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="text-white text-[11px] font-bold truncate">{pack.name}</div>
+                    <div className="text-white/40 text-[9px] font-mono">
+                      z{pack.minZoom}-{pack.maxZoom} · {pack.downloaded}/{pack.total} · {formatBytes(pack.bytes)} · {pack.status}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {pack.status === 'downloading' ? (
+                      <button
+                        onClick={() => cancelOfflinePack(pack.id)}
+                        className="p-1.5 bg-white/5 hover:bg-white/10 rounded text-white/60 hover:text-white"
+                        title="Cancel download"
+                      >
+                        <X size={12} />
+                      </button>
+                    ) : pack.status !== 'complete' && (
+                      <button
+                        onClick={() => resumePack(pack)}
+                        className="p-1.5 bg-white/5 hover:bg-white/10 rounded text-cyan-400"
+                        title="Resume download"
+                      >
+                        <RotateCcw size={12} />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => removePack(pack)}
+                      className="p-1.5 bg-white/5 hover:bg-red-600/30 rounded text-white/60 hover:text-red-400"
+                      title="Delete pack"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                </div>
+                {pack.status === 'downloading' && (
+                  <div className="mt-1.5 h-1 bg-white/10 rounded overflow-hidden">
+                    <div className="h-full bg-cyan-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+                  </div>
+                )}
+                {pack.error && <div className="mt-1 text-red-400 text-[9px]">{pack.error}</div>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
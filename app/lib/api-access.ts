@@ -0,0 +1,157 @@
+// Access control for the public API routes (tile proxy, /api/scan, /api/elevation)
+// - Origins: browsers may only call from our own origin or one listed in ALLOWED_ORIGINS (comma separated);
+//   CORS headers echo the allowed origin instead of `*`.
+// - Rate limits: a token bucket per client and route (see rate-limit.ts), 429 with Retry-After when empty.
+// - Signed tile URLs: with TILE_SIGNING_SECRET set, every tile request needs the map's session cookie
+//   (tile-session.ts) or ?exp=<unix seconds>&sig=<signature>, issued per source by POST /api/tiles/sign.
+//   Origin and Referer are only used for CORS - any client can send them.
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { TileMetrics } from './metrics';
+import { RateLimitedRoute, RateLimiter, isKnownApiKey } from './rate-limit';
+import { TILE_SESSION_COOKIE, isValidTileSession } from './tile-session';
+
+/** Origins allowed to call the API from a browser, besides the app's own */
+function getAllowedOrigins(): string[] {
+    return (process.env.ALLOWED_ORIGINS ?? '')
+        .split(',')
+        .map((origin) => origin.trim().replace(/\/$/, ''))
+        .filter(Boolean);
+}
+
+function isOriginAllowed(request: NextRequest, origin: string): boolean {
+    return origin === request.nextUrl.origin || getAllowedOrigins().includes(origin);
+}
+
+/** Origin of a browser request - the Origin header, else the Referer's origin (same-origin GETs omit Origin) */
+function getRequestOrigin(request: NextRequest): string | null {
+    const origin = request.headers.get('origin');
+    if (origin) return origin;
+
+    const referer = request.headers.get('referer');
+    if (!referer) return null;
+    try {
+        return new URL(referer).origin;
+    } catch {
+        return null;
+    }
+}
+
+/** Proxies in front of the app that append to X-Forwarded-For, from TRUSTED_PROXY_HOPS (default 1) */
+function getTrustedProxyHops(): number {
+    const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 1);
+    return Number.isInteger(hops) && hops >= 0 ? hops : 1;
+}
+
+/**
+ * Client IP as seen by the outermost trusted proxy
+ * Each proxy appends the address it received from, so the client can only prepend made-up hops - counting
+ * TRUSTED_PROXY_HOPS from the right skips them. With no trusted proxies, every client shares one bucket.
+ */
+function getClientIp(request: NextRequest): string {
+    const hops = getTrustedProxyHops();
+    const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+        .split(',')
+        .map((hop) => hop.trim())
+        .filter(Boolean);
+
+    if (hops === 0 || forwarded.length === 0) return 'unknown';
+    return forwarded[Math.max(0, forwarded.length - hops)];
+}
+
+/**
+ * CORS headers for a response - echoes the request's Origin when it is allowed
+ * Disallowed cross-origin browser requests get no Access-Control-Allow-Origin, so the browser blocks them.
+ */
+export function corsHeaders(request: NextRequest): Record<string, string> {
+    const origin = request.headers.get('origin');
+    return origin && isOriginAllowed(request, origin)
+        ? { 'Access-Control-Allow-Origin': origin, 'Vary': 'Origin' }
+        : { 'Vary': 'Origin' };
+}
+
+function tileSignature(source: string, expires: number, secret: string): string {
+    return createHmac('sha256', secret).update(`${source}:${expires}`).digest('base64url');
+}
+
+/**
+ * Sign tile URLs for a source until `expires` (unix seconds)
+ * Returns the query string to append to /api/tiles/{source}/{z}/{x}/{y}, or null when signing is disabled.
+ */
+export function signTileSource(source: string, expires: number): string | null {
+    const secret = process.env.TILE_SIGNING_SECRET;
+    if (!secret) return null;
+    return `exp=${expires}&sig=${tileSignature(source, expires, secret)}`;
+}
+
+function hasValidTileSignature(request: NextRequest, source: string, secret: string): boolean {
+    const expires = Number(request.nextUrl.searchParams.get('exp'));
+    const sig = request.nextUrl.searchParams.get('sig');
+
+    if (!sig || !Number.isInteger(expires) || expires * 1000 < Date.now()) {
+        return false;
+    }
+
+    const provided = Buffer.from(sig);
+    const expected = Buffer.from(tileSignature(source, expires, secret));
+    return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * Check origin, signature (tiles) and rate limit for an API request
+ * Returns an error response to send back, or null when the request may proceed.
+ * Rate limiting fails open: without Redis the request is let through.
+ */
+export async function guardApiRequest(
+    request: NextRequest,
+    route: RateLimitedRoute,
+    options: { tileSource?: string } = {}
+): Promise<NextResponse | null> {
+    const cors = corsHeaders(request);
+    const origin = getRequestOrigin(request);
+
+    // Keeps other sites' pages from using the API through their visitors' browsers; not an authentication
+    if (origin && !isOriginAllowed(request, origin)) {
+        return NextResponse.json({ status: 'error', error: 'Origin not allowed' }, { status: 403, headers: cors });
+    }
+
+    const secret = process.env.TILE_SIGNING_SECRET;
+    if (
+        options.tileSource &&
+        secret &&
+        !isValidTileSession(request.cookies.get(TILE_SESSION_COOKIE)?.value, secret) &&
+        !hasValidTileSignature(request, options.tileSource, secret)
+    ) {
+        return NextResponse.json({ status: 'error', error: 'Missing or expired tile signature' }, { status: 403, headers: cors });
+    }
+
+    const apiKey = request.headers.get('x-api-key');
+    if (apiKey && !isKnownApiKey(apiKey)) {
+        return NextResponse.json({ status: 'error', error: 'Invalid API key' }, { status: 401, headers: cors });
+    }
+
+    try {
+        const result = await RateLimiter.take(route, apiKey ? { apiKey } : { ip: getClientIp(request) });
+
+        if (!result.allowed) {
+            console.warn(`[RateLimit] ${route} limit reached for ${apiKey ? 'API key' : getClientIp(request)}`);
+            return NextResponse.json(
+                { status: 'error', error: 'Too many requests' },
+                {
+                    status: 429,
+                    headers: {
+                        ...cors,
+                        'Retry-After': String(result.retryAfterSeconds),
+                        'X-RateLimit-Limit': String(result.limit),
+                    },
+                }
+            );
+        }
+    } catch (error) {
+        console.error(`[RateLimit] Check failed for ${route}, allowing request:`, error);
+        TileMetrics.recordRedisError('ratelimit');
+    }
+
+    return null;
+}
@@ -1,3 +1,5 @@
+import { TILE_SOURCE_IDS, TileSourceId, buildStyleSource } from './tile-sources';
+
 export const AUSTRALIA_CENTER = {
     lng: 120.953100,
     lat: -27.946800,
@@ -70,115 +72,36 @@ export const FLIGHT_DECK_DESTINATIONS = {
 // Tiles are cached in Redis server-side and browser-side for optimal performance
 const TILE_PROXY_BASE = process.env.NEXT_PUBLIC_TILE_PROXY_URL || '';
 
-export const MAP_SOURCES = {
-    satellite: {
-        type: 'raster',
-        tiles: [
-            `${TILE_PROXY_BASE}/api/tiles/satellite/{z}/{x}/{y}`,
-        ],
-        tileSize: 256,
-        attribution: 'Esri, Maxar, Earthstar Geographics',
-    } as const,
-    terrain: {
-        type: 'raster-dem',
-        tiles: [
-            `${TILE_PROXY_BASE}/api/tiles/terrain/{z}/{x}/{y}`,
-        ],
-        encoding: 'terrarium',
-        tileSize: 256,
-        attribution: 'Mapzen, AWS Open Data',
-    } as const,
-    streets: {
-        type: 'raster',
-        tiles: [
-            `${TILE_PROXY_BASE}/api/tiles/streets/{z}/{x}/{y}`,
-        ],
-        tileSize: 256,
-        attribution: '© OpenStreetMap contributors',
-    } as const,
-    topo: {
-        type: 'raster',
-        tiles: [
-            `${TILE_PROXY_BASE}/api/tiles/topo/{z}/{x}/{y}`,
-        ],
-        tileSize: 256,
-        attribution: 'Esri',
-    } as const,
-    dark: {
-        type: 'raster',
-        tiles: [
-            `${TILE_PROXY_BASE}/api/tiles/dark/{z}/{x}/{y}`,
-        ],
-        tileSize: 256,
-        attribution: '© CARTO, © OpenStreetMap contributors',
-    } as const,
-    voyager: {
-        type: 'raster',
-        tiles: [
-            `${TILE_PROXY_BASE}/api/tiles/voyager/{z}/{x}/{y}`,
-        ],
-        tileSize: 256,
-        attribution: '© CARTO, © OpenStreetMap contributors',
-    } as const,
-    labels: {
-        type: 'raster',
-        tiles: [
-            `${TILE_PROXY_BASE}/api/tiles/labels/{z}/{x}/{y}`,
-        ],
-        tileSize: 256,
-        attribution: 'Esri',
-    } as const,
-    // Tactical Map Sources (specialized/alternative maps)
-    opentopo: {
-        type: 'raster',
-        tiles: [
-            `${TILE_PROXY_BASE}/api/tiles/opentopo/{z}/{x}/{y}`,
-        ],
-        tileSize: 256,
-        attribution: '© OpenTopoMap contributors',
-    } as const,
-    cyclosm: {
-        type: 'raster',
-        tiles: [
-            `${TILE_PROXY_BASE}/api/tiles/cyclosm/{z}/{x}/{y}`,
-        ],
-        tileSize: 256,
-        attribution: '© CyclOSM, © OpenStreetMap contributors',
-    } as const,
-    usgs_imagery: {
-        type: 'raster',
-        tiles: [
-            `${TILE_PROXY_BASE}/api/tiles/usgs_imagery/{z}/{x}/{y}`,
-        ],
-        tileSize: 256,
-        attribution: 'USGS',
-    } as const,
-    usgs_topo: {
-        type: 'raster',
-        tiles: [
-            `${TILE_PROXY_BASE}/api/tiles/usgs_topo/{z}/{x}/{y}`,
-        ],
-        tileSize: 256,
-        attribution: 'USGS',
-    } as const,
-    openseamap: {
-        type: 'raster',
-        tiles: [
-            `${TILE_PROXY_BASE}/api/tiles/openseamap/{z}/{x}/{y}`,
-        ],
-        tileSize: 256,
-        attribution: '© OpenSeaMap contributors',
-    } as const,
-    mtbmap: {
-        type: 'raster',
-        tiles: [
-            `${TILE_PROXY_BASE}/api/tiles/mtbmap/{z}/{x}/{y}`,
-        ],
-        tileSize: 256,
-        attribution: '© MTBMap.cz',
-    } as const,
-} as const;
+// MapLibre sources for every registered tile source (see tile-sources.ts)
+export const MAP_SOURCES = Object.fromEntries(
+    TILE_SOURCE_IDS.map((id) => [id, buildStyleSource(id, TILE_PROXY_BASE)])
+) as Record<TileSourceId, ReturnType<typeof buildStyleSource>>;
+
+/** A map style the user can pick - its layers must be registered tile sources */
+export interface MapStyleDefinition {
+    id: string;
+    name: string;
+    description: string;
+    baseLayer: TileSourceId;
+    /** Drawn over the base layer, in order */
+    overlays?: readonly TileSourceId[];
+    showLabels: boolean;
+    showTerrain: boolean;
+    showHillshade: boolean;
+    emoji: string;
+}
 
+/** A specialist basemap in the collapsible tactical section */
+export interface TacticalMapStyleDefinition {
+    id: string;
+    name: string;
+    description: string;
+    baseLayer: TileSourceId;
+    emoji: string;
+    comingSoon: boolean;
+}
+
+// `satisfies` checks every baseLayer and overlay against the tile source registry at build time
 export const MAP_STYLES = [
     {
         id: 'satellite',
@@ -240,7 +163,51 @@ export const MAP_STYLES = [
         showHillshade: false,
         emoji: '🗺️',
     },
-] as const;
+    {
+        id: 'vector',
+        name: 'Vector',
+        description: 'Crisp vector roads and labels',
+        baseLayer: 'osm_vector',
+        showLabels: false,
+        showTerrain: false,
+        showHillshade: false,
+        emoji: '🧭',
+    },
+    // Satellite with WMS/WMTS overlays drawn on top (see TILE_SOURCES)
+    {
+        id: 'geology',
+        name: 'Geology',
+        description: 'Surface geology over satellite (Australia)',
+        baseLayer: 'satellite',
+        overlays: ['ga_geology'],
+        showLabels: true,
+        showTerrain: false,
+        showHillshade: false,
+        emoji: '🪨',
+    },
+    {
+        id: 'cadastre',
+        name: 'Cadastre',
+        description: 'Property boundaries over satellite (NSW, zoom 14+)',
+        baseLayer: 'satellite',
+        overlays: ['nsw_cadastre'],
+        showLabels: false,
+        showTerrain: false,
+        showHillshade: false,
+        emoji: '📐',
+    },
+    {
+        id: 'nsw_topo',
+        name: 'NSW Topo',
+        description: 'NSW topographic map over satellite',
+        baseLayer: 'satellite',
+        overlays: ['nsw_topo'],
+        showLabels: false,
+        showTerrain: false,
+        showHillshade: false,
+        emoji: '🏞️',
+    },
+] as const satisfies readonly MapStyleDefinition[];
 
 // Tactical/Specialized Map Styles (collapsible section)
 export const TACTICAL_MAP_STYLES = [
@@ -255,33 +222,41 @@ export const TACTICAL_MAP_STYLES = [
     {
         id: 'usgs_imagery',
         name: 'USGS Imagery',
-        description: 'USA only - Coming Soon',
+        description: 'USA only',
         baseLayer: 'usgs_imagery',
         emoji: '🇺🇸',
-        comingSoon: true,
+        comingSoon: false,
     },
     {
         id: 'usgs_topo',
         name: 'USGS Topo',
-        description: 'USA only - Coming Soon',
+        description: 'USA only',
         baseLayer: 'usgs_topo',
         emoji: '🗺️',
-        comingSoon: true,
+        comingSoon: false,
     },
     {
         id: 'opentopo',
         name: 'OpenTopo',
-        description: 'Coming Soon',
+        description: 'Topographic contours',
         baseLayer: 'opentopo',
         emoji: '🏔️',
-        comingSoon: true,
+        comingSoon: false,
     },
     {
         id: 'mtbmap',
         name: 'MTBMap',
-        description: 'Coming Soon',
+        description: 'Europe only - MTB trails',
         baseLayer: 'mtbmap',
         emoji: '🚵',
-        comingSoon: true,
+        comingSoon: false,
+    },
+    {
+        id: 'field_archive',
+        name: 'Field Archive',
+        description: 'Local MBTiles/PMTiles - works offline',
+        baseLayer: 'field_archive',
+        emoji: '💾',
+        comingSoon: false,
     },
-] as const;
+] as const satisfies readonly TacticalMapStyleDefinition[];
@@ -0,0 +1,104 @@
+import sharp from 'sharp';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const tiles = vi.hoisted(() => ({ get: vi.fn() }));
+vi.mock('./redis', () => ({ TileCache: tiles }));
+vi.mock('./tile-upstream', () => ({
+    fetchTileCoalesced: vi.fn(async () => ({ result: { ok: false, status: 404, message: 'Not found' } })),
+}));
+
+import { chooseZoom, decodeTerrarium, encodeTerrainRgb, getElevations, getTerrainRgbTile, LngLat } from './elevation';
+
+/** Terrarium pixel for a height */
+function terrarium(meters: number): [number, number, number] {
+    const value = meters + 32768;
+    return [Math.floor(value / 256), Math.floor(value) % 256, Math.round((value % 1) * 256)];
+}
+
+/** A 256px Terrarium PNG of one height */
+async function flatTerrariumTile(meters: number): Promise<Buffer> {
+    const [r, g, b] = terrarium(meters);
+    return sharp({ create: { width: 256, height: 256, channels: 3, background: { r, g, b } } }).png().toBuffer();
+}
+
+/** Point on the corner of tile (x, y) at zoom z */
+function tileCorner(z: number, x: number, y: number): LngLat {
+    const n = Math.PI * (1 - (2 * y) / Math.pow(2, z));
+    return [(x / Math.pow(2, z)) * 360 - 180, (Math.atan(Math.sinh(n)) * 180) / Math.PI];
+}
+
+describe('Terrarium and Terrain-RGB encodings', () => {
+    it('decodes Terrarium pixels', () => {
+        expect(decodeTerrarium(128, 0, 0)).toBe(0);
+        expect(decodeTerrarium(...terrarium(8848))).toBe(8848);
+        expect(decodeTerrarium(...terrarium(-430.5))).toBe(-430.5);
+    });
+
+    it('encodes heights as Terrain-RGB to the decimeter', () => {
+        const decode = ([r, g, b]: [number, number, number]) => -10000 + (r * 65536 + g * 256 + b) * 0.1;
+
+        expect(encodeTerrainRgb(0)).toEqual([1, 134, 160]);
+        expect(decode(encodeTerrainRgb(8848.3))).toBeCloseTo(8848.3);
+        expect(decode(encodeTerrainRgb(-430.5))).toBeCloseTo(-430.5);
+    });
+
+    it('clamps heights outside the Terrain-RGB range', () => {
+        expect(encodeTerrainRgb(-20000)).toEqual([0, 0, 0]);
+        expect(encodeTerrainRgb(2_000_000)).toEqual([255, 255, 255]);
+    });
+});
+
+describe('chooseZoom', () => {
+    it('keeps the preferred zoom for nearby points', () => {
+        expect(chooseZoom([[151.2, -33.87], [151.21, -33.88]], 15)).toBe(15);
+    });
+
+    it('drops to a coarser zoom for scattered points', () => {
+        const points: LngLat[] = Array.from({ length: 100 }, (_, i) => [-170 + i * 3.4, 0]);
+        expect(chooseZoom(points, 15)).toBeLessThan(15);
+    });
+
+    it('counts the neighbouring tiles read for points on tile corners', () => {
+        // Each corner point reads four tiles: 16 points fill the 64 tile cap exactly, 17 go over
+        const corners = Array.from({ length: 17 }, (_, i) => tileCorner(15, 1000 + i * 10, 1000));
+
+        expect(chooseZoom(corners.slice(0, 16), 15)).toBe(15);
+        expect(chooseZoom(corners, 15)).toBeLessThan(15);
+    });
+});
+
+describe('terrain tiles', () => {
+    beforeEach(() => {
+        tiles.get.mockReset();
+    });
+
+    it('interpolates elevations from cached terrain tiles', async () => {
+        const data = await flatTerrariumTile(1234.5);
+        tiles.get.mockResolvedValue({ data });
+
+        const { samples, zoom } = await getElevations([[151.2, -33.87]], 12);
+
+        expect(zoom).toBe(12);
+        expect(samples).toEqual([{ lng: 151.2, lat: -33.87, elevation: 1234.5 }]);
+    });
+
+    it('returns null where no terrain tile is available', async () => {
+        tiles.get.mockResolvedValue(null);
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        const { samples } = await getElevations([[10, 10]], 11);
+        expect(samples[0].elevation).toBeNull();
+    });
+
+    it('re-encodes a terrain tile as Terrain-RGB', async () => {
+        const data = await flatTerrariumTile(-430.5);
+        tiles.get.mockResolvedValue({ data });
+
+        const png = await getTerrainRgbTile(9, 100, 200);
+        const { data: pixels, info } = await sharp(png!).raw().toBuffer({ resolveWithObject: true });
+
+        expect(info.width).toBe(256);
+        expect(info.channels).toBe(3);
+        expect([pixels[0], pixels[1], pixels[2]]).toEqual(encodeTerrainRgb(-430.5));
+    });
+});
@@ -0,0 +1,312 @@
+// Elevation lookups from the Terrarium DEM tiles behind the `terrain` source
+// Tiles come through the shared Redis tile cache (fetched upstream and cached on a miss, like map
+// requests), are decoded with sharp and kept decoded in a small in-process LRU. Terrarium encodes
+// meters as (R * 256 + G + B / 256) - 32768; values are bilinearly interpolated between pixels.
+// The same decoded tiles are re-encoded as Mapbox Terrain-RGB for clients that only read that encoding.
+
+import sharp from 'sharp';
+import { TileMetrics } from './metrics';
+import { TileCache } from './redis';
+import { lngLatToTileFraction } from './tile-math';
+import { TILE_SOURCES, TileSourceDefinition } from './tile-sources';
+import { fetchTileCoalesced } from './tile-upstream';
+
+export type LngLat = [number, number];
+
+export interface ElevationSample {
+    lng: number;
+    lat: number;
+    /** Meters above sea level, null where no terrain tile is available */
+    elevation: number | null;
+}
+
+export interface ProfileSample extends ElevationSample {
+    /** Meters along the line from its first point */
+    distance: number;
+}
+
+export interface ElevationProfile {
+    samples: ProfileSample[];
+    /** Total line length in meters */
+    distance: number;
+    /** Meters between samples */
+    interval: number;
+    zoom: number;
+    minElevation: number | null;
+    maxElevation: number | null;
+    /** Total climb and descent in meters along the line */
+    ascent: number;
+    descent: number;
+}
+
+interface DecodedTile {
+    width: number;
+    channels: number;
+    pixels: Buffer;
+}
+
+const TERRAIN: TileSourceDefinition = TILE_SOURCES.terrain;
+const TILE_SIZE = TERRAIN.tileSize ?? 256;
+
+export const MAX_ELEVATION_ZOOM = TERRAIN.maxZoom;
+export const MAX_ELEVATION_POINTS = 1000;
+export const MAX_PROFILE_SAMPLES = 1000;
+const DEFAULT_PROFILE_SAMPLES = 200;
+
+// Requests touching more terrain tiles than this drop to a coarser zoom
+const MAX_TILES_PER_REQUEST = 64;
+// Decoded tiles kept in memory (256x256 RGB = 192KB each)
+const MAX_DECODED_TILES = 64;
+
+const EARTH_RADIUS_M = 6371008.8;
+// Ground resolution of a 256px zoom 0 tile at the equator
+const EQUATOR_METERS_PER_PIXEL = 156543.03392;
+
+const decodedTiles = new Map<string, Promise<DecodedTile | null>>();
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/** Meters from a Terrarium pixel */
+export function decodeTerrarium(r: number, g: number, b: number): number {
+    return r * 256 + g + b / 256 - 32768;
+}
+
+/** Mapbox Terrain-RGB pixel for a height: -10000 + (R * 65536 + G * 256 + B) * 0.1 meters */
+export function encodeTerrainRgb(meters: number): [number, number, number] {
+    const value = Math.min(Math.max(Math.round((meters + 10000) * 10), 0), 0xffffff);
+    return [value >> 16, (value >> 8) & 0xff, value & 0xff];
+}
+
+/** Great-circle distance in meters */
+export function distanceMeters([lng1, lat1]: LngLat, [lng2, lat2]: LngLat): number {
+    const toRad = Math.PI / 180;
+    const dLat = (lat2 - lat1) * toRad;
+    const dLng = (lng2 - lng1) * toRad;
+    const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * toRad) * Math.cos(lat2 * toRad) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+async function loadTerrainTile(z: number, x: number, y: number): Promise<Buffer | null> {
+    try {
+        const cached = await TileCache.get('terrain', z, x, y);
+        if (cached) {
+            return cached.data;
+        }
+    } catch (redisError) {
+        console.error(`[Elevation] Redis error for terrain/${z}/${x}/${y}:`, redisError);
+        TileMetrics.recordRedisError('get');
+    }
+
+    const { result } = await fetchTileCoalesced('terrain', z, x, y);
+    if (!result.ok) {
+        console.warn(`[Elevation] Terrain tile ${z}/${x}/${y} unavailable: ${result.status} ${result.message}`);
+        return null;
+    }
+    return result.data;
+}
+
+/** Decoded terrain tile, shared by concurrent lookups - missing or failed tiles are not kept */
+function getDecodedTile(z: number, x: number, y: number): Promise<DecodedTile | null> {
+    const key = `${z}/${x}/${y}`;
+    const existing = decodedTiles.get(key);
+    if (existing) {
+        // Move to the back of the LRU
+        decodedTiles.delete(key);
+        decodedTiles.set(key, existing);
+        return existing;
+    }
+
+    const decoded = loadTerrainTile(z, x, y)
+        .then(async (data) => {
+            if (!data) return null;
+            const { data: pixels, info } = await sharp(data).raw().toBuffer({ resolveWithObject: true });
+            return { width: info.width, channels: info.channels, pixels };
+        })
+        .catch((error) => {
+            console.error(`[Elevation] Failed to decode terrain/${key}:`, error);
+            return null;
+        });
+
+    decodedTiles.set(key, decoded);
+    decoded.then((tile) => {
+        if (!tile) decodedTiles.delete(key);
+    });
+
+    while (decodedTiles.size > MAX_DECODED_TILES) {
+        decodedTiles.delete(decodedTiles.keys().next().value as string);
+    }
+
+    return decoded;
+}
+
+/** World pixel wrapped across the antimeridian and clamped at the poles, with the tile holding it */
+function locatePixel(z: number, px: number, py: number): { x: number; y: number; tileX: number; tileY: number } {
+    const worldSize = TILE_SIZE * Math.pow(2, z);
+    const x = ((px % worldSize) + worldSize) % worldSize;
+    const y = Math.min(Math.max(py, 0), worldSize - 1);
+    return { x, y, tileX: Math.floor(x / TILE_SIZE), tileY: Math.floor(y / TILE_SIZE) };
+}
+
+/** Height of one DEM pixel in world pixel coordinates */
+async function pixelElevation(z: number, px: number, py: number): Promise<number | null> {
+    const { x, y, tileX, tileY } = locatePixel(z, px, py);
+
+    const tile = await getDecodedTile(z, tileX, tileY);
+    if (!tile) return null;
+
+    // Tiles may be served larger than the grid they're addressed on (e.g. 512px terrarium)
+    const scale = tile.width / TILE_SIZE;
+    const i = (Math.floor((y % TILE_SIZE) * scale) * tile.width + Math.floor((x % TILE_SIZE) * scale)) * tile.channels;
+    return decodeTerrarium(tile.pixels[i], tile.pixels[i + 1], tile.pixels[i + 2]);
+}
+
+/** The four pixels bilinear sampling reads for a point (pixel values sit at pixel centers) */
+function samplePixels(lng: number, lat: number, zoom: number): { px: number; py: number; x0: number; y0: number } {
+    const { x, y } = lngLatToTileFraction(lng, lat, zoom);
+    const px = x * TILE_SIZE - 0.5;
+    const py = y * TILE_SIZE - 0.5;
+    return { px, py, x0: Math.floor(px), y0: Math.floor(py) };
+}
+
+/** Bilinearly interpolated elevation at a point, to the decimeter */
+async function elevationAt(lng: number, lat: number, zoom: number): Promise<number | null> {
+    const { px, py, x0, y0 } = samplePixels(lng, lat, zoom);
+
+    const [a, b, c, d] = await Promise.all([
+        pixelElevation(zoom, x0, y0),
+        pixelElevation(zoom, x0 + 1, y0),
+        pixelElevation(zoom, x0, y0 + 1),
+        pixelElevation(zoom, x0 + 1, y0 + 1),
+    ]);
+    if (a === null || b === null || c === null || d === null) return null;
+
+    const value = lerp(lerp(a, b, px - x0), lerp(c, d, px - x0), py - y0);
+    return Math.round(value * 10) / 10;
+}
+
+/**
+ * Highest zoom (up to `preferred`) at which the points need at most MAX_TILES_PER_REQUEST tiles
+ * Counts every tile bilinear sampling reads - a point on a tile edge also needs its neighbours.
+ */
+export function chooseZoom(points: LngLat[], preferred: number): number {
+    for (let zoom = preferred; zoom > 0; zoom--) {
+        const tiles = new Set<string>();
+        for (const [lng, lat] of points) {
+            const { x0, y0 } = samplePixels(lng, lat, zoom);
+            for (const [dx, dy] of [[0, 0], [1, 0], [0, 1], [1, 1]]) {
+                const { tileX, tileY } = locatePixel(zoom, x0 + dx, y0 + dy);
+                tiles.add(`${tileX}/${tileY}`);
+            }
+            if (tiles.size > MAX_TILES_PER_REQUEST) break;
+        }
+        if (tiles.size <= MAX_TILES_PER_REQUEST) return zoom;
+    }
+    return 0;
+}
+
+/**
+ * A terrain tile re-encoded as a Mapbox Terrain-RGB PNG, at the size it is served upstream
+ * Null when the Terrarium tile is unavailable.
+ */
+export async function getTerrainRgbTile(z: number, x: number, y: number): Promise<Buffer | null> {
+    const tile = await getDecodedTile(z, x, y);
+    if (!tile) return null;
+
+    const height = tile.pixels.length / (tile.width * tile.channels);
+    const rgb = Buffer.alloc(tile.width * height * 3);
+    for (let p = 0; p < tile.width * height; p++) {
+        const i = p * tile.channels;
+        const [r, g, b] = encodeTerrainRgb(decodeTerrarium(tile.pixels[i], tile.pixels[i + 1], tile.pixels[i + 2]));
+        rgb[p * 3] = r;
+        rgb[p * 3 + 1] = g;
+        rgb[p * 3 + 2] = b;
+    }
+
+    return sharp(rgb, { raw: { width: tile.width, height, channels: 3 } }).png().toBuffer();
+}
+
+/**
+ * Elevation for a batch of points
+ * Widely scattered batches are answered from a coarser zoom to bound the tiles fetched.
+ */
+export async function getElevations(
+    points: LngLat[],
+    maxZoom: number = MAX_ELEVATION_ZOOM
+): Promise<{ samples: ElevationSample[]; zoom: number }> {
+    const zoom = chooseZoom(points, Math.min(maxZoom, MAX_ELEVATION_ZOOM));
+    const samples = await Promise.all(
+        points.map(async ([lng, lat]) => ({ lng, lat, elevation: await elevationAt(lng, lat, zoom) }))
+    );
+    return { samples, zoom };
+}
+
+/**
+ * Elevation profile along a line, sampled every `interval` meters (vertices in between are not samples)
+ * Without an interval the line gets DEFAULT_PROFILE_SAMPLES samples; at most MAX_PROFILE_SAMPLES either way.
+ * The zoom follows the interval - there's no point reading 5m pixels for 500m steps.
+ */
+export async function getElevationProfile(
+    line: LngLat[],
+    options: { interval?: number; maxZoom?: number } = {}
+): Promise<ElevationProfile> {
+    const segmentLengths = line.slice(1).map((point, i) => distanceMeters(line[i], point));
+    const distance = segmentLengths.reduce((sum, length) => sum + length, 0);
+
+    const interval = Math.max(
+        options.interval ?? distance / (DEFAULT_PROFILE_SAMPLES - 1),
+        distance / (MAX_PROFILE_SAMPLES - 1),
+        1e-6
+    );
+
+    // Sample points by walking the segments
+    const points: LngLat[] = [];
+    const distances: number[] = [];
+    let segmentStart = 0;
+    let segment = 0;
+    for (let along = 0; along < distance; along += interval) {
+        while (segment < segmentLengths.length - 1 && along > segmentStart + segmentLengths[segment]) {
+            segmentStart += segmentLengths[segment];
+            segment++;
+        }
+        const t = segmentLengths[segment] > 0 ? (along - segmentStart) / segmentLengths[segment] : 0;
+        const [lng1, lat1] = line[segment];
+        const [lng2, lat2] = line[segment + 1];
+        points.push([lerp(lng1, lng2, t), lerp(lat1, lat2, t)]);
+        distances.push(along);
+    }
+    points.push(line[line.length - 1]);
+    distances.push(distance);
+
+    // Pixels about half the sample spacing at the line's mid latitude
+    const midLat = points[Math.floor(points.length / 2)][1];
+    const metersPerPixelAtZ0 = EQUATOR_METERS_PER_PIXEL * Math.cos((midLat * Math.PI) / 180);
+    const idealZoom = Math.ceil(Math.log2(metersPerPixelAtZ0 / Math.max(interval / 2, 1)));
+    const maxZoom = Math.min(options.maxZoom ?? MAX_ELEVATION_ZOOM, MAX_ELEVATION_ZOOM);
+    const { samples, zoom } = await getElevations(points, Math.min(Math.max(idealZoom, 0), maxZoom));
+
+    let ascent = 0;
+    let descent = 0;
+    let previous: number | null = null;
+    const elevations: number[] = [];
+
+    for (const { elevation } of samples) {
+        if (elevation === null) continue;
+        elevations.push(elevation);
+        if (previous !== null) {
+            if (elevation > previous) ascent += elevation - previous;
+            else descent += previous - elevation;
+        }
+        previous = elevation;
+    }
+
+    return {
+        samples: samples.map((sample, i) => ({ ...sample, distance: Math.round(distances[i] * 10) / 10 })),
+        distance: Math.round(distance * 10) / 10,
+        interval: Math.round(interval * 10) / 10,
+        zoom,
+        minElevation: elevations.length > 0 ? Math.min(...elevations) : null,
+        maxElevation: elevations.length > 0 ? Math.max(...elevations) : null,
+        ascent: Math.round(ascent * 10) / 10,
+        descent: Math.round(descent * 10) / 10,
+    };
+}
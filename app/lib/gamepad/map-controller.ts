@@ -17,6 +17,21 @@ import { getFlyEasingFn } from './flight-modes';
 import { CommandDispatcher } from './commands';
 import { ContextManager } from './context-manager';
 
+/** Current gamepad-driven camera motion, as applied by the MAP context analog controls */
+export interface MapVelocity {
+    // Screen pixels per second (map.panBy direction)
+    panX: number;
+    panY: number;
+    // Degrees per second
+    rotate: number;
+    pitch: number;
+    // Zoom levels per second (negative = zooming out)
+    zoom: number;
+}
+
+// Velocities not refreshed for this long are stale (gamepad disconnected, menu open, flyTo running)
+const VELOCITY_STALE_MS = 200;
+
 export class MapController {
     private map: maplibregl.Map;
     private profile: ControllerProfileV2;
@@ -44,6 +59,9 @@ export class MapController {
         zoom: 0
     };
 
+    // When the MAP analog controls last updated the velocities
+    private lastAnalogTime = 0;
+
     // Drone gimbal state (for drone_gimbal mode)
     private droneHeading = 0; // degrees
 
@@ -196,11 +214,23 @@ export class MapController {
         }
     }
 
+    /**
+     * Current pan/rotate/pitch/zoom velocity from the gamepad (all zero when it isn't driving the map)
+     * Used by predictive tile prefetching to look ahead of the camera.
+     */
+    getVelocity(): MapVelocity {
+        if (performance.now() - this.lastAnalogTime > VELOCITY_STALE_MS) {
+            return { panX: 0, panY: 0, rotate: 0, pitch: 0, zoom: 0 };
+        }
+        return { ...this.velocities };
+    }
+
     /**
      * Process analog controls for MAP context (existing v1 behavior)
      */
     private processMapAnalog(gamepad: Gamepad, dt: number) {
         const { settings, bindings } = this.profile;
+        this.lastAnalogTime = performance.now();
         const mapBindings = bindings.map;
 
         // Read raw values and apply deadzone
@@ -344,12 +374,15 @@ export class MapController {
         }
 
         // Apply continuous zoom
+        const zoomRate = settings.zoomUnitsPerSec * settings.sensitivity * settings.zoomIntensity;
         if (this.zoomInSpeed > 0) {
-            const zoomDelta = this.zoomInSpeed * settings.zoomUnitsPerSec * settings.sensitivity * settings.zoomIntensity * dt;
-            this.map.setZoom(this.map.getZoom() + zoomDelta);
+            this.velocities.zoom = this.zoomInSpeed * zoomRate;
+            this.map.setZoom(this.map.getZoom() + this.velocities.zoom * dt);
         } else if (this.zoomOutSpeed > 0) {
-            const zoomDelta = this.zoomOutSpeed * settings.zoomUnitsPerSec * settings.sensitivity * settings.zoomIntensity * dt;
-            this.map.setZoom(this.map.getZoom() - zoomDelta);
+            this.velocities.zoom = -this.zoomOutSpeed * zoomRate;
+            this.map.setZoom(this.map.getZoom() + this.velocities.zoom * dt);
+        } else {
+            this.velocities.zoom = 0;
         }
     }
 
@@ -0,0 +1,74 @@
+// Prometheus metrics for the tile proxy, exposed at /api/metrics
+// Counters and histograms are per process - Prometheus scrapes each instance and sums across them.
+// Labels are kept to bounded sets (registered source ids, HTTP statuses, mirror hosts).
+
+import { Counter, Histogram, Registry } from 'prom-client';
+import { isTileSourceId } from './tile-sources';
+
+export const metricsRegistry = new Registry();
+
+const tileRequests = new Counter({
+    name: 'tile_requests_total',
+    help: 'Tile proxy responses by source, HTTP status and cache status',
+    labelNames: ['source', 'status', 'cache_status'] as const,
+    registers: [metricsRegistry],
+});
+
+const tileRequestDuration = new Histogram({
+    name: 'tile_request_duration_seconds',
+    help: 'Tile proxy response time by source and cache status',
+    labelNames: ['source', 'cache_status'] as const,
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+    registers: [metricsRegistry],
+});
+
+const tileBytesServed = new Counter({
+    name: 'tile_bytes_served_total',
+    help: 'Tile bytes sent to clients by source and cache status',
+    labelNames: ['source', 'cache_status'] as const,
+    registers: [metricsRegistry],
+});
+
+const upstreamDuration = new Histogram({
+    name: 'tile_upstream_request_duration_seconds',
+    help: 'Upstream tile fetch time by source, mirror host and result status',
+    labelNames: ['source', 'upstream', 'status'] as const,
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 20],
+    registers: [metricsRegistry],
+});
+
+const redisErrors = new Counter({
+    name: 'tile_redis_errors_total',
+    help: 'Redis failures in the tile proxy by operation',
+    labelNames: ['operation'] as const,
+    registers: [metricsRegistry],
+});
+
+export type RedisOperation = 'get' | 'set' | 'lock' | 'stats' | 'ratelimit';
+
+export const TileMetrics = {
+    /**
+     * Count a tile proxy response
+     * cacheStatus comes from X-Cache-Status (NONE for errors answered before the cache); bytes is the body size.
+     */
+    recordResponse(source: string, status: number, cacheStatus: string | null, bytes: number, durationMs: number): void {
+        // Unknown source names come from the URL - don't let them create label values
+        const sourceLabel = isTileSourceId(source) ? source : 'invalid';
+        const cacheLabel = cacheStatus ?? 'NONE';
+
+        tileRequests.inc({ source: sourceLabel, status: String(status), cache_status: cacheLabel });
+        tileRequestDuration.observe({ source: sourceLabel, cache_status: cacheLabel }, durationMs / 1000);
+        if (bytes > 0) {
+            tileBytesServed.inc({ source: sourceLabel, cache_status: cacheLabel }, bytes);
+        }
+    },
+
+    /** Time one upstream request - status is the upstream's HTTP status, or ours for timeouts/network errors */
+    recordUpstream(source: string, upstream: string, status: number, durationMs: number): void {
+        upstreamDuration.observe({ source, upstream, status: String(status) }, durationMs / 1000);
+    },
+
+    recordRedisError(operation: RedisOperation): void {
+        redisErrors.inc({ operation });
+    },
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_PACK_TILES, planOfflinePack } from './offline-packs';
+
+describe('planOfflinePack', () => {
+    it('lists every tile over the zoom range', () => {
+        const plan = planOfflinePack({ w: -10, s: -10, e: 10, n: 10 }, 0, 1, ['satellite']);
+
+        expect(plan.tileCount).toBe(5);
+        expect(plan.tileUrls).toEqual([
+            '/api/tiles/satellite/0/0/0',
+            '/api/tiles/satellite/1/0/0',
+            '/api/tiles/satellite/1/0/1',
+            '/api/tiles/satellite/1/1/0',
+            '/api/tiles/satellite/1/1/1',
+        ]);
+        expect(plan.estimatedBytes).toBeGreaterThan(0);
+    });
+
+    it('excludes sources whose usage policy forbids bulk downloads', () => {
+        const plan = planOfflinePack({ w: -10, s: -10, e: 10, n: 10 }, 0, 0, ['satellite', 'streets']);
+
+        expect(plan.sources).toEqual(['satellite']);
+        expect(plan.excludedSources).toEqual(['streets']);
+        expect(plan.tileUrls.every((url) => url.startsWith('/api/tiles/satellite/'))).toBe(true);
+    });
+
+    it('clamps zooms to what each source serves', () => {
+        // terrain stops at z15, satellite is overzoomed to z22
+        const plan = planOfflinePack({ w: 151.2, s: -33.87, e: 151.2001, n: -33.8699 }, 15, 22, ['satellite', 'terrain']);
+        const zooms = (source: string) =>
+            new Set(plan.tileUrls.filter((url) => url.includes(`/${source}/`)).map((url) => Number(url.split('/')[4])));
+
+        expect(zooms('terrain')).toEqual(new Set([15]));
+        expect(zooms('satellite')).toEqual(new Set([15, 16, 17, 18, 19, 20, 21, 22]));
+    });
+
+    it('clips sources to their bounds', () => {
+        // nsw_topo only covers NSW - an area in Western Australia gets no tiles from it
+        const plan = planOfflinePack({ w: 115.8, s: -32, e: 115.9, n: -31.9 }, 10, 10, ['nsw_topo', 'satellite']);
+
+        expect(plan.tileUrls.some((url) => url.includes('/nsw_topo/'))).toBe(false);
+        expect(plan.tileCount).toBe(plan.tileUrls.length);
+    });
+
+    it('plans both sides of an area across the antimeridian', () => {
+        const plan = planOfflinePack({ w: 170, s: -50, e: 190, n: -30 }, 2, 2, ['satellite']);
+
+        // 170..180 is tile x 3, -180..-170 is tile x 0
+        expect(plan.tileUrls.map((url) => Number(url.split('/')[5])).sort()).toEqual([0, 3]);
+    });
+
+    it('counts tiles but lists none past MAX_PACK_TILES', () => {
+        const plan = planOfflinePack({ w: 110, s: -45, e: 155, n: -10 }, 0, 10, ['satellite']);
+
+        expect(plan.tileCount).toBeGreaterThan(MAX_PACK_TILES);
+        expect(plan.tileUrls).toEqual([]);
+    });
+});
@@ -0,0 +1,91 @@
+// Offline pack planning - which tiles cover an area and roughly how much storage they need
+// The service worker does the downloading (see downloadOfflinePack in service-worker.ts).
+
+import { LngLatBBox, TileRange, bboxToTileRange, countTilesInRange, intersectBBox, splitAtAntimeridian } from './tile-math';
+import { TILE_SOURCES, TileSourceDefinition, TileSourceId, getServedMaxZoom, getTilePath } from './tile-sources';
+
+// Keeps a single download to a sensible size (~a city at z10-16)
+export const MAX_PACK_TILES = 20_000;
+
+// Typical compressed tile sizes, for the storage estimate
+const AVERAGE_TILE_BYTES = {
+    'raster-dem': 60_000,
+    vector: 35_000,
+    jpeg: 25_000,
+    png: 15_000,
+};
+
+export interface OfflinePackPlan {
+    bbox: LngLatBBox;
+    minZoom: number;
+    maxZoom: number;
+    sources: TileSourceId[];
+    // Requested sources left out because their usage policy forbids bulk downloads
+    excludedSources: TileSourceId[];
+    tileCount: number;
+    estimatedBytes: number;
+    // Empty when tileCount exceeds MAX_PACK_TILES
+    tileUrls: string[];
+}
+
+function estimateTileBytes(sourceConfig: TileSourceDefinition): number {
+    if (sourceConfig.type !== 'raster') {
+        return AVERAGE_TILE_BYTES[sourceConfig.type];
+    }
+    return sourceConfig.contentType === 'image/jpeg' ? AVERAGE_TILE_BYTES.jpeg : AVERAGE_TILE_BYTES.png;
+}
+
+/**
+ * Tiles covering an area for the given sources and zoom range
+ * Zooms are clamped to what each source serves, and sources with bounds are clipped to them.
+ * The area may be raw map bounds - a view across the antimeridian or on a wrapped copy of the world is
+ * mapped back onto real longitudes. Sources with allowSeeding: false are excluded.
+ */
+export function planOfflinePack(
+    bbox: LngLatBBox,
+    minZoom: number,
+    maxZoom: number,
+    requestedSources: TileSourceId[]
+): OfflinePackPlan {
+    const sources = requestedSources.filter((source) => (TILE_SOURCES[source] as TileSourceDefinition).allowSeeding !== false);
+    const excludedSources = requestedSources.filter((source) => !sources.includes(source));
+    const ranges: Array<{ source: TileSourceId; range: TileRange }> = [];
+    let tileCount = 0;
+    let estimatedBytes = 0;
+
+    const parts = splitAtAntimeridian(bbox);
+
+    for (const source of sources) {
+        const sourceConfig: TileSourceDefinition = TILE_SOURCES[source];
+        const [w, s, e, n] = sourceConfig.bounds ?? [-180, -90, 180, 90];
+
+        for (const part of parts) {
+            const covered = intersectBBox(part, { w, s, e, n });
+            if (!covered) {
+                continue;
+            }
+
+            for (let z = Math.max(minZoom, sourceConfig.minZoom); z <= Math.min(maxZoom, getServedMaxZoom(sourceConfig)); z++) {
+                const range = bboxToTileRange(covered, z);
+                const count = countTilesInRange(range);
+
+                ranges.push({ source, range });
+                tileCount += count;
+                estimatedBytes += count * estimateTileBytes(sourceConfig);
+            }
+        }
+    }
+
+    const tileUrls: string[] = [];
+    if (tileCount <= MAX_PACK_TILES) {
+        for (const { source, range } of ranges) {
+            for (let x = range.minX; x <= range.maxX; x++) {
+                for (let y = range.minY; y <= range.maxY; y++) {
+                    tileUrls.push(getTilePath(source, range.z, x, y));
+                }
+            }
+        }
+    }
+
+    return { bbox, minZoom, maxZoom, sources, excludedSources, tileCount, estimatedBytes, tileUrls };
+}
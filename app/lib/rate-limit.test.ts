@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const redis = vi.hoisted(() => ({ eval: vi.fn() }));
+vi.mock('./redis', () => ({ getRedisClient: () => redis }));
+
+import { RateLimiter, getRateLimit } from './rate-limit';
+
+describe('getRateLimit', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+        vi.restoreAllMocks();
+    });
+
+    it('uses the route default', () => {
+        expect(getRateLimit('scan')).toEqual({ burst: 10, perMinute: 6 });
+    });
+
+    it('applies a RATE_LIMIT_<ROUTE> override', () => {
+        vi.stubEnv('RATE_LIMIT_SCAN', '5, 2');
+        expect(getRateLimit('scan')).toEqual({ burst: 5, perMinute: 2 });
+    });
+
+    it('ignores an invalid override', () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.stubEnv('RATE_LIMIT_SCAN', '0,abc');
+        expect(getRateLimit('scan')).toEqual({ burst: 10, perMinute: 6 });
+    });
+});
+
+describe('RateLimiter.take', () => {
+    beforeEach(() => {
+        redis.eval.mockReset();
+    });
+
+    it('sizes the bucket from the burst and refills it per millisecond', async () => {
+        redis.eval.mockResolvedValue([1, 9, 0]);
+
+        const result = await RateLimiter.take('scan', { ip: '203.0.113.7' });
+
+        expect(result).toEqual({ allowed: true, remaining: 9, limit: 10 });
+        const [, keyCount, key, capacity, perMs] = redis.eval.mock.calls[0];
+        expect(keyCount).toBe(1);
+        expect(key).toBe('ratelimit:v1:scan:ip:203.0.113.7');
+        expect(capacity).toBe(10);
+        expect(perMs).toBeCloseTo(6 / 60_000);
+    });
+
+    it('gives API keys a larger bucket under a hashed key', async () => {
+        redis.eval.mockResolvedValue([1, 49, 0]);
+
+        const result = await RateLimiter.take('scan', { apiKey: 'secret-key' });
+
+        expect(result).toEqual({ allowed: true, remaining: 49, limit: 50 });
+        const [, , key, capacity, perMs] = redis.eval.mock.calls[0];
+        expect(key).toMatch(/^ratelimit:v1:scan:key:[0-9a-f]{16}$/);
+        expect(key).not.toContain('secret-key');
+        expect(capacity).toBe(50);
+        expect(perMs).toBeCloseTo(30 / 60_000);
+    });
+
+    it('rounds the wait for the next token up to whole seconds', async () => {
+        redis.eval.mockResolvedValue([0, 0, 2500]);
+        expect(await RateLimiter.take('scan', { ip: '203.0.113.7' })).toEqual({
+            allowed: false,
+            retryAfterSeconds: 3,
+            limit: 10,
+        });
+
+        redis.eval.mockResolvedValue([0, 0, 20]);
+        expect(await RateLimiter.take('scan', { ip: '203.0.113.7' })).toMatchObject({ retryAfterSeconds: 1 });
+    });
+});
@@ -0,0 +1,102 @@
+// Redis-backed token bucket rate limiting for the public API routes
+// Each client (API key, or IP address without one) gets one bucket per route: `burst` requests at once,
+// refilled at `perMinute`. Limits can be overridden per route with RATE_LIMIT_<ROUTE>="<burst>,<perMinute>",
+// e.g. RATE_LIMIT_SCAN="5,2". Holders of a key listed in API_KEYS get API_KEY_RATE_MULTIPLIER times the limit.
+
+import { createHash } from 'crypto';
+import { getRedisClient } from './redis';
+
+export interface RateLimitConfig {
+    /** Requests allowed back to back */
+    burst: number;
+    /** Sustained requests per minute */
+    perMinute: number;
+}
+
+export type RateLimitedRoute = 'tiles' | 'scan' | 'elevation';
+
+const DEFAULT_RATE_LIMITS: Record<RateLimitedRoute, RateLimitConfig> = {
+    // A map view loads ~50 tiles per source at once; offline packs download 6 at a time
+    tiles: { burst: 600, perMinute: 3000 },
+    // Every scan spends OpenWebNinja quota
+    scan: { burst: 10, perMinute: 6 },
+    // Cursor readouts are throttled client-side; batches and profiles decode many tiles
+    elevation: { burst: 60, perMinute: 600 },
+};
+
+const API_KEY_RATE_MULTIPLIER = 5;
+
+const RATE_LIMIT_PREFIX = 'ratelimit:v1:';
+
+export type RateLimitResult =
+    | { allowed: true; remaining: number; limit: number }
+    | { allowed: false; retryAfterSeconds: number; limit: number };
+
+// KEYS[1] = bucket hash; ARGV[1] = capacity, ARGV[2] = tokens per millisecond
+// Returns {allowed, remaining tokens, ms until the next token}. Uses the Redis clock so every instance agrees.
+const TAKE_TOKEN_LUA = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local time = redis.call('time')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local state = redis.call('hmget', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(state[1]) or capacity
+local ts = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - ts) * rate)
+local allowed = 0
+if tokens >= 1 then
+    tokens = tokens - 1
+    allowed = 1
+end
+redis.call('hset', KEYS[1], 'tokens', tostring(tokens), 'ts', now)
+redis.call('pexpire', KEYS[1], math.ceil((capacity - tokens) / rate) + 1000)
+return {allowed, math.floor(tokens), math.ceil((1 - tokens) / rate)}`;
+
+/** Route limit with any RATE_LIMIT_<ROUTE> override applied */
+export function getRateLimit(route: RateLimitedRoute): RateLimitConfig {
+    const override = process.env[`RATE_LIMIT_${route.toUpperCase()}`];
+    if (override) {
+        const [burst, perMinute] = override.split(',').map((value) => Number(value.trim()));
+        if (burst > 0 && perMinute > 0) {
+            return { burst, perMinute };
+        }
+        console.warn(`[RateLimit] Ignoring invalid RATE_LIMIT_${route.toUpperCase()}="${override}"`);
+    }
+    return DEFAULT_RATE_LIMITS[route];
+}
+
+/** Keys from API_KEYS (comma separated) */
+export function isKnownApiKey(key: string): boolean {
+    return (process.env.API_KEYS ?? '')
+        .split(',')
+        .map((k) => k.trim())
+        .some((k) => k.length > 0 && k === key);
+}
+
+export const RateLimiter = {
+    /**
+     * Take one token from the client's bucket for a route
+     * client is an API key or an IP address; API keys are hashed before use in Redis keys.
+     */
+    async take(route: RateLimitedRoute, client: { apiKey: string } | { ip: string }): Promise<RateLimitResult> {
+        const config = getRateLimit(route);
+        const multiplier = 'apiKey' in client ? API_KEY_RATE_MULTIPLIER : 1;
+        const capacity = config.burst * multiplier;
+        const perMs = (config.perMinute * multiplier) / 60_000;
+        const id = 'apiKey' in client
+            ? `key:${createHash('sha256').update(client.apiKey).digest('hex').slice(0, 16)}`
+            : `ip:${client.ip}`;
+
+        const [allowed, remaining, retryAfterMs] = (await getRedisClient().eval(
+            TAKE_TOKEN_LUA,
+            1,
+            `${RATE_LIMIT_PREFIX}${route}:${id}`,
+            capacity,
+            perMs
+        )) as [number, number, number];
+
+        return allowed === 1
+            ? { allowed: true, remaining, limit: capacity }
+            : { allowed: false, retryAfterSeconds: Math.max(1, Math.ceil(retryAfterMs / 1000)), limit: capacity };
+    },
+};
@@ -1,4 +1,7 @@
 import Redis from 'ioredis';
+import { createHash } from 'crypto';
+import { TILE_SOURCE_IDS, getCachedTileSource, getTileTTL, detectContentEncoding } from './tile-sources';
+import { LngLatBBox, TileRange, bboxToTileRange, isTileInRange } from './tile-math';
 
 // Singleton pattern - one Redis connection for the entire application lifecycle
 let redis: Redis | null = null;
@@ -32,65 +35,395 @@ export function getRedisClient(): Redis {
     return redis;
 }
 
+// Upper bound on the stale-while-revalidate window past a tile's soft expiry
+const MAX_STALE_SECONDS = 30 * 24 * 60 * 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Byte usage is accounted in one hash per expiry day: tile:v1:usage:{day} -> {source}:{z}: bytes,
+// {source}:{z}:count: tiles. Each bucket expires at the end of its day, together with its tiles,
+// so the totals stay accurate without tracking individual expiries.
+const USAGE_PREFIX = 'tile:v1:usage:';
+// Longest possible tile lifetime (static TTL class + stale window) in days
+const USAGE_HORIZON_DAYS = 180 + 30 + 1;
+
+// Request counters per source: tile:v1:metrics:{source} -> outcome counts, latency sum, since
+const METRICS_PREFIX = 'tile:v1:metrics:';
+
+// Per-source namespace bumps: tile:namespace -> {source}: bumps (version = 1 + bumps)
+const NAMESPACE_KEY = 'tile:namespace';
+// How often each process re-reads namespace versions bumped by another instance
+const NAMESPACE_REFRESH_MS = 10_000;
+
+const namespaceVersions: Record<string, number> = {};
+let namespacesLoadedAt = 0;
+
+// Script results that make the caller retry: the namespace version the tile key was built with is out of date
+// (another instance bumped it), or the tile was charged to another usage bucket since it was read
+const STALE_NAMESPACE = -1;
+const MOVED_BUCKET = -2;
+const MAX_SCRIPT_ATTEMPTS = 3;
+
+// Shared by the Lua scripts below. Every key they touch is passed in KEYS; they set these locals first:
+// tile (hash key), field (usage field {source}:{z}), chargedDay and chargedBucket (the day and bucket the
+// tile's bytes are counted in, read beforehand - '' and the new bucket when it has none), bucket, day,
+// bucketExpireAt and ttl (where a written tile is charged and how long it lives)
+const RELEASE_USAGE_LUA = `
+local prev = redis.call('hmget', tile, 'bytes', 'bucket')
+if (prev[2] or '') ~= chargedDay then return ${MOVED_BUCKET} end
+if prev[1] and redis.call('exists', chargedBucket) == 1 then
+    redis.call('hincrby', chargedBucket, field, -tonumber(prev[1]))
+    redis.call('hincrby', chargedBucket, field .. ':count', -1)
+end`;
+
+const CHARGE_USAGE_LUA = `
+redis.call('expire', tile, ttl)
+redis.call('hincrby', bucket, field, tonumber(redis.call('hget', tile, 'bytes')))
+redis.call('hincrby', bucket, field .. ':count', 1)
+redis.call('expireat', bucket, bucketExpireAt)`;
+
+// KEYS[1] = tile hash, KEYS[2] = namespace hash, KEYS[3] = charged bucket, KEYS[4] = new bucket
+// ARGV[1] = source, ARGV[2] = namespace version of the tile key, ARGV[3..7] = usage field, charged day,
+// new day, bucket expire-at (unix seconds), tile TTL (seconds)
+const WRITE_TILE_PREAMBLE_LUA = `
+local tile, namespaces, chargedBucket, bucket = KEYS[1], KEYS[2], KEYS[3], KEYS[4]
+local source, version, field, chargedDay, day, bucketExpireAt, ttl = unpack(ARGV, 1, 7)
+if 1 + tonumber(redis.call('hget', namespaces, source) or '0') ~= tonumber(version) then
+    return ${STALE_NAMESPACE}
+end`;
+
+// ARGV[8..13] = data, content type, etag, upstream etag, last-modified, fetched-at
+const STORE_TILE_LUA = `${WRITE_TILE_PREAMBLE_LUA}
+${RELEASE_USAGE_LUA}
+redis.call('hset', tile, 'data', ARGV[8], 'ct', ARGV[9], 'etag', ARGV[10], 'uetag', ARGV[11],
+    'lm', ARGV[12], 'fetchedAt', ARGV[13], 'bytes', string.len(ARGV[8]), 'bucket', day)
+${CHARGE_USAGE_LUA}
+return 1`;
+
+// ARGV[8] = fetched-at
+const TOUCH_TILE_LUA = `${WRITE_TILE_PREAMBLE_LUA}
+if redis.call('exists', tile) == 0 then return 0 end
+${RELEASE_USAGE_LUA}
+redis.call('hset', tile, 'fetchedAt', ARGV[8], 'bucket', day)
+${CHARGE_USAGE_LUA}
+return 1`;
+
+// KEYS[1] = tile (hash or legacy string), KEYS[2] = legacy meta key, KEYS[3] = charged bucket
+// ARGV[1] = usage field, ARGV[2] = charged day; returns keys removed
+const DELETE_TILE_LUA = `
+local tile, chargedBucket = KEYS[1], KEYS[3]
+local field, chargedDay = ARGV[1], ARGV[2]
+if redis.call('type', tile).ok == 'hash' then
+${RELEASE_USAGE_LUA}
+end
+return redis.call('del', KEYS[1], KEYS[2])`;
+
+// KEYS[1] = legacy tile, KEYS[2] = its meta key; returns {data, meta, pttl} or nil if not legacy
+const TAKE_LEGACY_TILE_LUA = `
+if redis.call('type', KEYS[1]).ok ~= 'string' then return false end
+local result = {redis.call('get', KEYS[1]), redis.call('get', KEYS[2]), redis.call('pttl', KEYS[1])}
+redis.call('del', KEYS[1], KEYS[2])
+return result`;
+
+/** Upstream validators for conditional revalidation (If-None-Match / If-Modified-Since) */
+export interface UpstreamValidators {
+    etag?: string | null;
+    lastModified?: string | null;
+}
+
+/**
+ * A tile read from Redis
+ * etag is our own hash of the bytes (browser-facing); upstreamEtag/lastModified are
+ * what the upstream sent, replayed when revalidating.
+ */
+export interface CachedTile {
+    data: Buffer;
+    contentType: string;
+    contentEncoding: 'gzip' | null;
+    etag: string;
+    upstreamEtag: string | null;
+    lastModified: string | null;
+    fetchedAt: number | null;
+    stale: boolean;
+}
+
+/** Bytes and tile count held in Redis */
+export interface TileUsage {
+    bytes: number;
+    tiles: number;
+}
+
+/** Usage of one source, in total and per zoom level */
+export interface SourceUsage extends TileUsage {
+    zooms: Record<number, TileUsage>;
+}
+
+/** Which tiles of a source to purge - all of them when no zoom range or bbox is given */
+export interface TilePurgeFilter {
+    minZoom?: number;
+    maxZoom?: number;
+    bbox?: LngLatBBox;
+}
+
+/** How the tile route answered a request */
+export type TileRequestOutcome = 'hit' | 'stale' | 'miss' | 'coalesced' | 'error';
+
+/** Request counters for one source */
+export interface TileRequestStats {
+    requests: number;
+    hits: number;
+    stale: number;
+    misses: number;
+    coalesced: number;
+    errors: number;
+    // Share of requests answered from Redis (fresh or stale)
+    hitRatio: number;
+    avgLatencyMs: number;
+    since: string | null;
+}
+
+const TILE_REQUEST_OUTCOMES: TileRequestOutcome[] = ['hit', 'stale', 'miss', 'coalesced', 'error'];
+
+/**
+ * Parse the `:meta` value of a legacy (base64 string) tile
+ * Holds either JSON metadata or, for the oldest entries, the bare content type.
+ */
+function parseLegacyMeta(raw: string | null): { contentType: string; fetchedAt: number | null } & UpstreamValidators | null {
+    if (!raw) {
+        return null;
+    }
+
+    if (!raw.startsWith('{')) {
+        return { contentType: raw, fetchedAt: null };
+    }
+
+    try {
+        const meta = JSON.parse(raw) as { contentType?: string; upstreamEtag?: string | null; lastModified?: string | null; fetchedAt?: number | null };
+        if (!meta.contentType) {
+            return null;
+        }
+        return {
+            contentType: meta.contentType,
+            etag: meta.upstreamEtag ?? null,
+            lastModified: meta.lastModified ?? null,
+            fetchedAt: meta.fetchedAt ?? null,
+        };
+    } catch {
+        return null;
+    }
+}
+
+function isWrongTypeError(error: unknown): boolean {
+    return error instanceof Error && error.message.startsWith('WRONGTYPE');
+}
+
+/** Expiry day of the usage bucket a tile is charged to - '' when it has none (or is a legacy string) */
+async function getChargedDay(client: Redis, key: string): Promise<string> {
+    try {
+        return (await client.hget(key, 'bucket')) ?? '';
+    } catch (error) {
+        if (isWrongTypeError(error)) {
+            return '';
+        }
+        throw error;
+    }
+}
+
 // Tile-specific caching utilities with cartographic optimization
 export const TileCache = {
     /**
      * Generate cache key with version namespace for cache invalidation
-     * Format: tile:v1:{source}:{z}:{x}:{y}
+     * Format: tile:v{version}:{source}:{z}:{x}:{y} - version is per source (see bumpNamespace)
+     * Each key is a hash: data (raw bytes), ct, etag, uetag, lm, fetchedAt, bytes, bucket.
      */
     getKey(source: string, z: number, x: number, y: number): string {
-        return `tile:v1:${source}:${z}:${x}:${y}`;
+        return `tile:v${this.getNamespaceVersion(source)}:${source}:${z}:${x}:${y}`;
     },
 
     /**
-     * Smart TTL based on zoom level and tile type
-     * - Satellite imagery (high zoom): 30 days (changes infrequently)
-     * - Satellite imagery (low zoom): 90 days (almost never changes)
-     * - Terrain/elevation: 180 days (static data)
-     * - Streets/roads: 14 days (road networks update regularly)
-     * - Hybrid/labels: 14 days (place names/boundaries change)
+     * Parse a tile key back into its coordinates (null for lock/usage/legacy meta keys)
      */
-    getTTL(source: string, zoom: number): number {
-        // Terrain/elevation data is static
-        if (source.includes('terrain') || source.includes('elevation')) {
-            return 60 * 60 * 24 * 180; // 180 days for static terrain
+    parseKey(key: string): { version: number; source: string; z: number; x: number; y: number } | null {
+        const match = /^tile:v(\d+):([^:]+):(\d+):(\d+):(\d+)$/.exec(key);
+        if (!match) {
+            return null;
         }
+        return {
+            version: Number(match[1]),
+            source: match[2],
+            z: Number(match[3]),
+            x: Number(match[4]),
+            y: Number(match[5]),
+        };
+    },
 
-        // Satellite imagery changes slowly
-        if (source.includes('imagery') || source.includes('satellite')) {
-            // Higher zoom = more detailed = more frequent updates
-            if (zoom >= 15) return 60 * 60 * 24 * 30; // 30 days
-            if (zoom >= 10) return 60 * 60 * 24 * 60; // 60 days
-            return 60 * 60 * 24 * 90; // 90 days for world view
-        }
+    /**
+     * Current namespace version of a source, as last loaded by syncNamespaces
+     */
+    getNamespaceVersion(source: string): number {
+        return namespaceVersions[source] ?? 1;
+    },
 
-        // Streets/roads update more frequently (new roads, changes)
-        if (source.includes('streets') || source.includes('road')) {
-            return 60 * 60 * 24 * 14; // 14 days
+    /**
+     * Reload namespace versions from Redis if the in-process copy is older than NAMESPACE_REFRESH_MS
+     * Other instances read under the old version for up to that interval, but never write there - the
+     * write scripts check the version in Redis and resync on a mismatch.
+     */
+    async syncNamespaces(force: boolean = false): Promise<void> {
+        if (!force && Date.now() - namespacesLoadedAt < NAMESPACE_REFRESH_MS) {
+            return;
         }
 
-        // Labels/boundaries update occasionally
-        if (source.includes('hybrid') || source.includes('labels') || source.includes('boundaries')) {
-            return 60 * 60 * 24 * 14; // 14 days
+        const client = getRedisClient();
+        const bumps = await client.hgetall(NAMESPACE_KEY);
+        for (const [source, count] of Object.entries(bumps)) {
+            namespaceVersions[source] = 1 + Number(count);
         }
+        namespacesLoadedAt = Date.now();
+    },
 
-        // Dark/Voyager themed maps (stable design)
-        if (source.includes('dark') || source.includes('voyager') || source.includes('stamen')) {
-            return 60 * 60 * 24 * 30; // 30 days
-        }
+    /**
+     * Move a source to a new key namespace, invalidating all of its cached tiles at once
+     * Tiles under older versions are then deleted. Returns the new version and keys removed.
+     */
+    async bumpNamespace(source: string): Promise<{ version: number; removed: number }> {
+        const client = getRedisClient();
+        const version = 1 + (await client.hincrby(NAMESPACE_KEY, source, 1));
+        namespaceVersions[source] = version;
 
-        // Tactical maps (relatively stable)
-        if (source.includes('opentopo') || source.includes('usgs') ||
-            source.includes('openseamap') || source.includes('mtbmap')) {
-            return 60 * 60 * 24 * 30; // 30 days for specialized maps
-        }
+        const { removed } = await this.deleteTiles(source, (tile) => tile.version !== version);
+        console.log(`[TileCache] Namespace for ${source} bumped to v${version} (${removed} old keys removed)`);
 
-        // Default: 7 days for other sources
-        return 60 * 60 * 24 * 7;
+        return { version, removed };
     },
 
     /**
-     * Store tile with compression metadata
+     * Delete a source's cached tiles, optionally limited to a zoom range and/or bbox
+     * Covers every namespace version of the source.
+     */
+    async purge(source: string, filter: TilePurgeFilter = {}): Promise<{ scanned: number; removed: number }> {
+        const { minZoom = 0, maxZoom = Infinity, bbox } = filter;
+        const ranges = new Map<number, TileRange>();
+
+        const result = await this.deleteTiles(source, (tile) => {
+            if (tile.z < minZoom || tile.z > maxZoom) {
+                return false;
+            }
+            if (!bbox) {
+                return true;
+            }
+
+            let range = ranges.get(tile.z);
+            if (!range) {
+                range = bboxToTileRange(bbox, tile.z);
+                ranges.set(tile.z, range);
+            }
+            return isTileInRange(range, tile.x, tile.y);
+        });
+
+        console.log(`[TileCache] Purged ${result.removed} ${source} tiles (${result.scanned} scanned)`);
+        return result;
+    },
+
+    /**
+     * SCAN a source's tile keys (all versions) and delete the ones matching the predicate
+     * Usage counters are released with each deleted tile.
+     */
+    async deleteTiles(
+        source: string,
+        predicate: (tile: { version: number; source: string; z: number; x: number; y: number }) => boolean,
+        batchSize: number = 500
+    ): Promise<{ scanned: number; removed: number }> {
+        const client = getRedisClient();
+        let cursor = '0';
+        let scanned = 0;
+        let removed = 0;
+
+        do {
+            const [nextCursor, keys] = await client.scan(cursor, 'MATCH', `tile:v*:${source}:*`, 'COUNT', batchSize);
+            cursor = nextCursor;
+
+            const doomed: { key: string; field: string }[] = [];
+            for (const key of keys) {
+                const tile = this.parseKey(key);
+                if (!tile || tile.source !== source) {
+                    continue;
+                }
+                scanned++;
+
+                if (predicate(tile)) {
+                    doomed.push({ key, field: `${source}:${tile.z}` });
+                }
+            }
+
+            if (doomed.length === 0) {
+                continue;
+            }
+
+            // The usage bucket each tile is charged to is a key of its delete script
+            const bucketPipeline = client.pipeline();
+            doomed.forEach(({ key }) => bucketPipeline.hget(key, 'bucket'));
+            const buckets = (await bucketPipeline.exec()) ?? [];
+
+            const pipeline = client.pipeline();
+            doomed.forEach(({ key, field }, i) => {
+                // Legacy string tiles fail the HGET - they have no bucket
+                const chargedDay = buckets[i]?.[0] ? '' : String(buckets[i]?.[1] ?? '');
+                pipeline.eval(DELETE_TILE_LUA, 3, key, `${key}:meta`, `${USAGE_PREFIX}${chargedDay}`, field, chargedDay);
+            });
+            const results = (await pipeline.exec()) ?? [];
+
+            for (const [i, [err, deleted]] of results.entries()) {
+                // Rewritten since its bucket was read - delete it on its own
+                const count = Number(deleted) === MOVED_BUCKET
+                    ? await this.deleteTileKey(doomed[i].key, doomed[i].field)
+                    : Number(deleted);
+                // Count tiles, not keys - a legacy tile also drops its :meta key
+                if (!err && count > 0) {
+                    removed++;
+                }
+            }
+        } while (cursor !== '0');
+
+        return { scanned, removed };
+    },
+
+    /**
+     * Smart TTL (soft expiry) based on zoom level and tile type
+     * Each registry source declares a TTL class (see getTileTTL):
+     * - Satellite imagery (high zoom): 30 days (changes infrequently)
+     * - Satellite imagery (low zoom): 90 days (almost never changes)
+     * - Terrain/elevation: 180 days (static data)
+     * - Streets/roads: 14 days (road networks update regularly)
+     * - Hybrid/labels: 14 days (place names/boundaries change)
+     * - Themed and specialized maps: 30 days
+     * Unknown sources fall back to 7 days; overzoom caches follow their source.
+     */
+    getTTL(source: string, zoom: number): number {
+        const ttlClass = getCachedTileSource(source)?.ttlClass ?? 'default';
+        return getTileTTL(ttlClass, zoom);
+    },
+
+    /**
+     * How long a tile stays in Redis after its soft expiry (getTTL)
+     * Within this window the tile is served stale while it revalidates upstream.
+     */
+    getStaleTTL(source: string, zoom: number): number {
+        return Math.min(this.getTTL(source, zoom), MAX_STALE_SECONDS);
+    },
+
+    /**
+     * Strong ETag for the tile bytes - sent to browsers so they can revalidate with If-None-Match
+     */
+    computeEtag(data: Buffer): string {
+        return `"${createHash('sha1').update(data).digest('base64url')}"`;
+    },
+
+    /**
+     * Store tile as raw bytes in a single hash
+     * Validators are the upstream's ETag/Last-Modified, used for conditional revalidation.
+     * The tile expires relative to fetchedAt, and its byte usage moves to the bucket of
+     * its expiry day in the same script.
      */
     async set(
         source: string,
@@ -98,92 +431,371 @@ export const TileCache = {
         x: number,
         y: number,
         data: Buffer,
-        contentType: string
+        contentType: string,
+        validators: UpstreamValidators = {},
+        fetchedAt: number = Date.now()
     ): Promise<void> {
+        // Keep the tile past its soft expiry so it can be served stale while revalidating
+        const lifetime = this.getTTL(source, z) + this.getStaleTTL(source, z);
+        const ttl = Math.max(1, lifetime - Math.floor((Date.now() - fetchedAt) / 1000));
+
+        await this.runWriteScript(STORE_TILE_LUA, source, z, x, y, ttl, [
+            data,
+            contentType,
+            this.computeEtag(data),
+            validators.etag ?? '',
+            validators.lastModified ?? '',
+            String(fetchedAt),
+        ]);
+    },
+
+    /**
+     * Mark a cached tile as fresh again after upstream answered 304 Not Modified
+     * Returns false if the tile has been evicted in the meantime.
+     */
+    async touch(source: string, z: number, x: number, y: number): Promise<boolean> {
+        const ttl = this.getTTL(source, z) + this.getStaleTTL(source, z);
+        const result = await this.runWriteScript(TOUCH_TILE_LUA, source, z, x, y, ttl, [String(Date.now())]);
+        return result === 1;
+    },
+
+    /**
+     * Run STORE_TILE_LUA or TOUCH_TILE_LUA for a tile written now with the given TTL
+     * The tile's current usage bucket is read first and passed as a key; the script is retried if it
+     * changed in between, or if another instance bumped the source's namespace since it was last synced.
+     */
+    async runWriteScript(
+        script: string,
+        source: string,
+        z: number,
+        x: number,
+        y: number,
+        ttl: number,
+        args: (string | Buffer)[]
+    ): Promise<number> {
         const client = getRedisClient();
-        const key = this.getKey(source, z, x, y);
-        const ttl = this.getTTL(source, z);
+        const expiryDay = Math.floor((Date.now() + ttl * 1000) / DAY_MS);
+        const bucketExpireAt = ((expiryDay + 1) * DAY_MS) / 1000;
+        let result = 0;
+
+        for (let attempt = 0; attempt < MAX_SCRIPT_ATTEMPTS; attempt++) {
+            await this.syncNamespaces(result === STALE_NAMESPACE);
+            const key = this.getKey(source, z, x, y);
+            const chargedDay = await getChargedDay(client, key);
+
+            result = Number(await client.eval(
+                script,
+                4,
+                key,
+                NAMESPACE_KEY,
+                `${USAGE_PREFIX}${chargedDay || expiryDay}`,
+                `${USAGE_PREFIX}${expiryDay}`,
+                source,
+                String(this.getNamespaceVersion(source)),
+                `${source}:${z}`,
+                chargedDay,
+                String(expiryDay),
+                String(bucketExpireAt),
+                String(ttl),
+                ...args
+            ));
+
+            if (result !== STALE_NAMESPACE && result !== MOVED_BUCKET) {
+                return result;
+            }
+        }
 
-        // Store as base64 encoded string for reliability across Redis versions
-        const encoded = data.toString('base64');
+        throw new Error(`Tile ${source}/${z}/${x}/${y} kept changing during the write`);
+    },
 
-        // Store tile data and metadata with TTL
-        const pipeline = client.pipeline();
-        pipeline.setex(key, ttl, encoded);
-        pipeline.setex(`${key}:meta`, ttl, contentType);
-        await pipeline.exec();
+    /**
+     * Delete one tile key (and its legacy meta key), releasing its usage - returns keys removed
+     */
+    async deleteTileKey(key: string, field: string): Promise<number> {
+        const client = getRedisClient();
+
+        for (let attempt = 0; attempt < MAX_SCRIPT_ATTEMPTS; attempt++) {
+            const chargedDay = await getChargedDay(client, key);
+            const removed = Number(await client.eval(
+                DELETE_TILE_LUA, 3, key, `${key}:meta`, `${USAGE_PREFIX}${chargedDay}`, field, chargedDay
+            ));
+            if (removed !== MOVED_BUCKET) {
+                return removed;
+            }
+        }
+
+        throw new Error(`Tile ${key} kept changing during the delete`);
     },
 
     /**
      * Retrieve tile from cache
+     * contentEncoding is set for gzip-compressed payloads (vector tiles) so the
+     * bytes can be passed through to the browser untouched.
+     * stale is set once the tile is past its soft expiry - callers should serve it and revalidate.
+     * Legacy base64 entries are read as-is and converted to the hash format.
      */
     async get(
         source: string,
         z: number,
         x: number,
         y: number
-    ): Promise<{ data: Buffer; contentType: string } | null> {
+    ): Promise<CachedTile | null> {
         const client = getRedisClient();
+        await this.syncNamespaces();
         const key = this.getKey(source, z, x, y);
 
-        const pipeline = client.pipeline();
-        pipeline.get(key);
-        pipeline.get(`${key}:meta`);
-
-        const results = await pipeline.exec();
-
-        if (!results || results.length !== 2) {
-            return null;
+        let hash: Record<string, Buffer>;
+        try {
+            hash = await client.hgetallBuffer(key);
+        } catch (error) {
+            if (isWrongTypeError(error)) {
+                return this.migrateLegacyKey(source, z, x, y);
+            }
+            throw error;
         }
 
-        const [encodedResult, contentTypeResult] = results;
-        const encoded = encodedResult?.[1] as string | null;
-        const contentType = contentTypeResult?.[1] as string | null;
+        const data = hash.data;
+        const contentType = hash.ct?.toString();
 
-        if (!encoded || !contentType) {
+        if (!data || !contentType) {
             return null;
         }
 
+        const fetchedAt = hash.fetchedAt ? Number(hash.fetchedAt.toString()) : null;
+        const stale = fetchedAt !== null && Date.now() - fetchedAt > this.getTTL(source, z) * 1000;
+
         return {
-            data: Buffer.from(encoded, 'base64'),
+            data,
             contentType,
+            contentEncoding: detectContentEncoding(data),
+            etag: hash.etag?.toString() || this.computeEtag(data),
+            upstreamEtag: hash.uetag?.toString() || null,
+            lastModified: hash.lm?.toString() || null,
+            fetchedAt,
+            stale,
         };
     },
 
     /**
-     * Batch prefetch - warm cache for adjacent tiles
-     * Used for predictive caching based on user navigation patterns
+     * Whether a tile is cached (fresh or stale) without loading its data
+     */
+    async has(source: string, z: number, x: number, y: number): Promise<boolean> {
+        const client = getRedisClient();
+        await this.syncNamespaces();
+        return (await client.exists(this.getKey(source, z, x, y))) === 1;
+    },
+
+    /**
+     * Convert one legacy tile (base64 string + `:meta` key) to the hash format
+     * The tile keeps its remaining lifetime. Returns the tile, or null if it was incomplete.
+     */
+    async migrateLegacyKey(source: string, z: number, x: number, y: number): Promise<CachedTile | null> {
+        const client = getRedisClient();
+        const key = this.getKey(source, z, x, y);
+
+        // Read and delete atomically so concurrent readers migrate the tile only once
+        const legacy = (await client.eval(TAKE_LEGACY_TILE_LUA, 2, key, `${key}:meta`)) as
+            [string, string | null, number] | null;
+
+        if (!legacy) {
+            // Already converted by someone else
+            return this.get(source, z, x, y);
+        }
+
+        const [encoded, rawMeta, pttl] = legacy;
+        const meta = parseLegacyMeta(rawMeta);
+        if (!meta) {
+            return null;
+        }
+
+        // Legacy entries without a fetch time are dated from their remaining lifetime
+        const ttl = this.getTTL(source, z) + this.getStaleTTL(source, z);
+        const fetchedAt = meta.fetchedAt ?? (pttl > 0 ? Date.now() - (ttl * 1000 - pttl) : Date.now());
+
+        await this.set(source, z, x, y, Buffer.from(encoded, 'base64'), meta.contentType, meta, fetchedAt);
+        return this.get(source, z, x, y);
+    },
+
+    /**
+     * Convert every legacy tile in Redis to the hash format (incremental SCAN, safe to re-run)
      */
-    async prefetch(
+    async migrateLegacyKeys(batchSize: number = 500): Promise<{ scanned: number; migrated: number }> {
+        const client = getRedisClient();
+        let cursor = '0';
+        let scanned = 0;
+        let migrated = 0;
+
+        do {
+            const [nextCursor, keys] = await client.scan(cursor, 'MATCH', 'tile:v1:*', 'COUNT', batchSize);
+            cursor = nextCursor;
+
+            await this.syncNamespaces();
+            // Legacy tiles of a source whose namespace was bumped are already invalid
+            const tiles = keys
+                .map((key) => ({ key, tile: this.parseKey(key) }))
+                .filter(({ tile }) => tile !== null && tile.version === this.getNamespaceVersion(tile.source));
+            scanned += tiles.length;
+
+            if (tiles.length === 0) {
+                continue;
+            }
+
+            const typePipeline = client.pipeline();
+            tiles.forEach(({ key }) => typePipeline.type(key));
+            const types = (await typePipeline.exec()) ?? [];
+
+            for (let i = 0; i < tiles.length; i++) {
+                const tile = tiles[i].tile;
+                if (types[i]?.[1] === 'string' && tile) {
+                    await this.migrateLegacyKey(tile.source, tile.z, tile.x, tile.y);
+                    migrated++;
+                }
+            }
+        } while (cursor !== '0');
+
+        console.log(`[TileCache] Migrated ${migrated} legacy tiles (${scanned} scanned)`);
+        return { scanned, migrated };
+    },
+
+    /**
+     * Bytes and tile count per source and zoom, summed over the live expiry-day buckets
+     * Maintained on write, so no keyspace scan is needed. Legacy tiles count once migrated.
+     */
+    async getUsage(): Promise<Record<string, SourceUsage>> {
+        const client = getRedisClient();
+        const today = Math.floor(Date.now() / DAY_MS);
+
+        const pipeline = client.pipeline();
+        for (let day = today; day <= today + USAGE_HORIZON_DAYS; day++) {
+            pipeline.hgetall(`${USAGE_PREFIX}${day}`);
+        }
+        const results = (await pipeline.exec()) ?? [];
+
+        const usage: Record<string, SourceUsage> = {};
+        for (const [, bucket] of results) {
+            for (const [field, value] of Object.entries((bucket ?? {}) as Record<string, string>)) {
+                const [source, zoom, count] = field.split(':');
+                const metric = count === 'count' ? 'tiles' : 'bytes';
+                const z = Number(zoom);
+
+                usage[source] ??= { bytes: 0, tiles: 0, zooms: {} };
+                usage[source].zooms[z] ??= { bytes: 0, tiles: 0 };
+                usage[source][metric] += Number(value);
+                usage[source].zooms[z][metric] += Number(value);
+            }
+        }
+
+        return usage;
+    },
+
+    /**
+     * Count a tile request for the per-source hit/miss and latency stats
+     */
+    async recordRequest(source: string, outcome: TileRequestOutcome, latencyMs: number): Promise<void> {
+        const client = getRedisClient();
+        const key = `${METRICS_PREFIX}${source}`;
+
+        await client
+            .pipeline()
+            .hsetnx(key, 'since', String(Date.now()))
+            .hincrby(key, outcome, 1)
+            .hincrby(key, 'latencyMs', Math.round(latencyMs))
+            .exec();
+    },
+
+    /**
+     * Request counters for the given sources since they were first recorded
+     */
+    async getRequestStats(sources: string[]): Promise<Record<string, TileRequestStats>> {
+        const client = getRedisClient();
+
+        const pipeline = client.pipeline();
+        sources.forEach((source) => pipeline.hgetall(`${METRICS_PREFIX}${source}`));
+        const results = (await pipeline.exec()) ?? [];
+
+        const stats: Record<string, TileRequestStats> = {};
+        sources.forEach((source, i) => {
+            const counters = (results[i]?.[1] ?? {}) as Record<string, string>;
+            const [hits, stale, misses, coalesced, errors] = TILE_REQUEST_OUTCOMES.map((outcome) => Number(counters[outcome] ?? 0));
+            const requests = hits + stale + misses + coalesced + errors;
+
+            stats[source] = {
+                requests,
+                hits,
+                stale,
+                misses,
+                coalesced,
+                errors,
+                hitRatio: requests > 0 ? (hits + stale) / requests : 0,
+                avgLatencyMs: requests > 0 ? Number(counters.latencyMs ?? 0) / requests : 0,
+                since: counters.since ? new Date(Number(counters.since)).toISOString() : null,
+            };
+        });
+
+        return stats;
+    },
+
+    /**
+     * Short-lived distributed lock so only one instance fetches a missing tile upstream
+     * Returns a token to release the lock with, or null if another instance holds it.
+     */
+    async acquireFetchLock(
         source: string,
         z: number,
         x: number,
         y: number,
-        radius: number = 1
-    ): Promise<string[]> {
-        const keys: string[] = [];
-
-        for (let dx = -radius; dx <= radius; dx++) {
-            for (let dy = -radius; dy <= radius; dy++) {
-                if (dx === 0 && dy === 0) continue; // Skip center tile
-                keys.push(this.getKey(source, z, x + dx, y + dy));
-            }
-        }
+        ttlMs: number
+    ): Promise<string | null> {
+        const client = getRedisClient();
+        const token = `${process.pid}:${Date.now()}:${Math.random().toString(36).slice(2)}`;
+        const result = await client.set(`${this.getKey(source, z, x, y)}:lock`, token, 'PX', ttlMs, 'NX');
+        return result === 'OK' ? token : null;
+    },
+
+    /**
+     * Check whether another instance is currently fetching this tile
+     */
+    async isFetchLocked(source: string, z: number, x: number, y: number): Promise<boolean> {
+        const client = getRedisClient();
+        return (await client.exists(`${this.getKey(source, z, x, y)}:lock`)) === 1;
+    },
 
-        return keys;
+    /**
+     * Release a fetch lock - only deletes it if we still own it (compare-and-delete)
+     */
+    async releaseFetchLock(source: string, z: number, x: number, y: number, token: string): Promise<void> {
+        const client = getRedisClient();
+        await client.eval(
+            "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end",
+            1,
+            `${this.getKey(source, z, x, y)}:lock`,
+            token
+        );
     },
 
     /**
-     * Get cache statistics
+     * Get cache statistics per source (optionally a single source)
+     * Built from maintained counters - never walks the keyspace.
      */
-    async getStats(): Promise<{
-        totalKeys: number;
+    async getStats(source?: string): Promise<{
+        totalTiles: number;
+        totalBytes: number;
         memoryUsage: string;
+        sources: Record<string, SourceUsage & { requests: TileRequestStats }>;
     }> {
         const client = getRedisClient();
 
-        // Get all tile keys (use SCAN in production for large datasets)
-        const keys = await client.keys('tile:v1:*');
+        const usage = await this.getUsage();
+        const sourceIds = source ? [source] : Array.from(new Set([...TILE_SOURCE_IDS, ...Object.keys(usage)]));
+        const requestStats = await this.getRequestStats(sourceIds);
+
+        const sources: Record<string, SourceUsage & { requests: TileRequestStats }> = {};
+        for (const id of sourceIds) {
+            sources[id] = {
+                ...(usage[id] ?? { bytes: 0, tiles: 0, zooms: {} }),
+                requests: requestStats[id],
+            };
+        }
 
         // Get memory info if available
         let memoryUsage = 'N/A';
@@ -198,8 +810,10 @@ export const TileCache = {
         }
 
         return {
-            totalKeys: keys.length,
+            totalTiles: Object.values(sources).reduce((sum, { tiles }) => sum + tiles, 0),
+            totalBytes: Object.values(sources).reduce((sum, { bytes }) => sum + bytes, 0),
             memoryUsage,
+            sources,
         };
     },
 };
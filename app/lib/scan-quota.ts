@@ -0,0 +1,54 @@
+// Daily budget for OpenWebNinja (Waze) requests, shared by every instance through Redis
+// Every upstream request is counted, whether it came from the map or the watch area scheduler.
+// Both are held to the budget (WAZE_DAILY_REQUEST_BUDGET, per UTC day): the scheduler defers areas and
+// map scans are refused once it is spent.
+
+import { getRedisClient } from './redis';
+
+const DEFAULT_DAILY_BUDGET = 500;
+
+const QUOTA_PREFIX = 'waze:quota:v1:';
+// Day counters outlive their day so yesterday's usage can still be reported
+const QUOTA_TTL_SECONDS = 2 * 24 * 60 * 60;
+
+export interface ScanQuotaUsage {
+    /** UTC day, YYYY-MM-DD */
+    day: string;
+    used: number;
+    budget: number;
+    remaining: number;
+}
+
+/** Upstream requests allowed per day, from WAZE_DAILY_REQUEST_BUDGET */
+export function getDailyBudget(): number {
+    const override = process.env.WAZE_DAILY_REQUEST_BUDGET;
+    if (override) {
+        const budget = Number(override);
+        if (Number.isInteger(budget) && budget >= 0) {
+            return budget;
+        }
+        console.warn(`[ScanQuota] Ignoring invalid WAZE_DAILY_REQUEST_BUDGET="${override}"`);
+    }
+    return DEFAULT_DAILY_BUDGET;
+}
+
+function quotaKey(day: string): string {
+    return `${QUOTA_PREFIX}${day}`;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export const ScanQuota = {
+    /** Count upstream requests against today's budget */
+    async record(requests: number = 1): Promise<void> {
+        const key = quotaKey(today());
+        await getRedisClient().multi().incrby(key, requests).expire(key, QUOTA_TTL_SECONDS).exec();
+    },
+
+    async getUsage(): Promise<ScanQuotaUsage> {
+        const day = today();
+        const used = Number(await getRedisClient().get(quotaKey(day))) || 0;
+        const budget = getDailyBudget();
+        return { day, used, budget, remaining: Math.max(0, budget - used) };
+    },
+};
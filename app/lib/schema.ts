@@ -1,4 +1,6 @@
-import { pgTable, varchar, doublePrecision, integer, timestamp, text } from 'drizzle-orm/pg-core';
+import { pgTable, varchar, doublePrecision, integer, timestamp, text, jsonb, serial, boolean } from 'drizzle-orm/pg-core';
+import type { ScanPolygon } from './waze-scan';
+import type { JamLine } from './waze-jams';
 
 // Police reports table (for police-specific alerts)
 export const policeReports = pgTable('police_reports', {
@@ -27,5 +29,48 @@ export const trafficAlerts = pgTable('traffic_alerts', {
     alertConfidence: integer('alert_confidence'),
     description: text('description'),
     publishDatetimeUtc: timestamp('publish_datetime_utc'),
+    // Lifecycle: first and latest scan that returned the alert, and how many did
+    firstSeenAt: timestamp('first_seen_at').defaultNow().notNull(),
+    lastSeenAt: timestamp('last_seen_at').defaultNow().notNull(),
+    seenCount: integer('seen_count').default(1).notNull(),
+    // Set by the first scan covering the alert's location that no longer returns it; cleared if it reappears
+    resolvedAt: timestamp('resolved_at'),
+    createdAt: timestamp('created_at').defaultNow(),
+});
+
+// Traffic jams table (congested road stretches, refreshed on every scan that returns them)
+export const trafficJams = pgTable('traffic_jams', {
+    jamId: varchar('jam_id', { length: 255 }).primaryKey(),
+    // [lng, lat] vertices along the jammed road
+    line: jsonb('line').$type<JamLine>().notNull(),
+    // Start of the jam, for location queries
+    latitude: doublePrecision('latitude'),
+    longitude: doublePrecision('longitude'),
+    level: integer('level'),
+    speedKmh: doublePrecision('speed_kmh'),
+    delaySeconds: integer('delay_seconds'),
+    lengthMeters: integer('length_meters'),
+    street: varchar('street', { length: 255 }),
+    city: varchar('city', { length: 255 }),
+    publishDatetimeUtc: timestamp('publish_datetime_utc'),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// Watch areas scanned on a schedule (see watch-areas.ts)
+export const watchAreas = pgTable('watch_areas', {
+    id: serial('id').primaryKey(),
+    name: varchar('name', { length: 255 }).notNull().unique(),
+    // Bounding box sent upstream - for polygon areas, the polygon's bounds
+    west: doublePrecision('west').notNull(),
+    south: doublePrecision('south').notNull(),
+    east: doublePrecision('east').notNull(),
+    north: doublePrecision('north').notNull(),
+    // Optional outline; results outside it are dropped
+    polygon: jsonb('polygon').$type<ScanPolygon>(),
+    intervalMinutes: integer('interval_minutes').default(15).notNull(),
+    enabled: boolean('enabled').default(true).notNull(),
+    lastScannedAt: timestamp('last_scanned_at'),
+    lastScanError: text('last_scan_error'),
     createdAt: timestamp('created_at').defaultNow(),
 });
@@ -1,5 +1,8 @@
 // Service Worker Registration and Management
 
+import type { LngLatBBox } from './tile-math';
+import type { TileSourceId } from './tile-sources';
+
 export async function registerTileServiceWorker(): Promise<ServiceWorkerRegistration | null> {
     if (typeof window === 'undefined' || !('serviceWorker' in navigator)) {
         console.log('[SW] Service workers not supported');
@@ -45,10 +48,22 @@ export async function clearTileCache(): Promise<void> {
     console.log('[SW] Sent clear cache message');
 }
 
+/** Per-source usage of the browser tile cache, from the service worker's tile index */
+export interface SourceCacheStats {
+    tileCount: number;
+    bytes: number;
+    budgetBytes: number;
+    // Tiles held in offline packs (pinned, not counted against the budget)
+    packTileCount: number;
+    packBytes: number;
+}
+
 export async function getCacheStats(): Promise<{
     tileCount: number;
+    tileBytes: number;
     storageUsed: number;
     storageQuota: number;
+    sources: Record<string, SourceCacheStats>;
 } | null> {
     if (!navigator.serviceWorker?.controller) {
         console.warn('[SW] No active service worker');
@@ -91,3 +106,102 @@ export async function prefetchTiles(tileUrls: string[]): Promise<void> {
 
     console.log(`[SW] Sent prefetch request for ${tileUrls.length} tiles`);
 }
+
+/** Offline pack metadata, as stored by the service worker */
+export interface OfflinePack {
+    id: string;
+    name: string;
+    bbox: LngLatBBox;
+    minZoom: number;
+    maxZoom: number;
+    sources: TileSourceId[];
+    total: number;
+    downloaded: number;
+    failed: number;
+    bytes: number;
+    status: 'downloading' | 'complete' | 'partial' | 'cancelled' | 'failed';
+    error: string | null;
+    createdAt: number;
+    updatedAt: number;
+}
+
+const DELETE_PACK_TIMEOUT_MS = 30000;
+
+/**
+ * Send a message to the active service worker and wait for its reply on a MessageChannel
+ * Resolves null without a worker or when it doesn't reply within timeoutMs.
+ */
+function requestFromWorker<T>(message: Record<string, unknown>, timeoutMs: number = 5000): Promise<T | null> {
+    const controller = navigator.serviceWorker?.controller;
+    if (!controller) {
+        console.warn('[SW] No active service worker');
+        return Promise.resolve(null);
+    }
+
+    return new Promise((resolve) => {
+        const messageChannel = new MessageChannel();
+
+        messageChannel.port1.onmessage = (event) => {
+            resolve(event.data as T);
+        };
+
+        controller.postMessage(message, [messageChannel.port2]);
+
+        setTimeout(() => resolve(null), timeoutMs);
+    });
+}
+
+/**
+ * Start (or resume) downloading an offline pack - progress arrives via onOfflinePackProgress
+ */
+export function downloadOfflinePack(pack: OfflinePack, tileUrls: string[]): boolean {
+    const controller = navigator.serviceWorker?.controller;
+    if (!controller) {
+        console.warn('[SW] No active service worker');
+        return false;
+    }
+
+    controller.postMessage({ type: 'DOWNLOAD_PACK', pack, urls: tileUrls });
+    console.log(`[SW] Sent pack download "${pack.name}" (${tileUrls.length} tiles)`);
+    return true;
+}
+
+export function cancelOfflinePack(id: string): void {
+    navigator.serviceWorker?.controller?.postMessage({ type: 'CANCEL_PACK', id });
+}
+
+export async function listOfflinePacks(): Promise<OfflinePack[]> {
+    const reply = await requestFromWorker<{ packs: OfflinePack[] }>({ type: 'LIST_PACKS' });
+    return reply?.packs ?? [];
+}
+
+/**
+ * Delete an offline pack, stopping its download first
+ * Throws when the worker doesn't confirm it, so the pack isn't silently left in place.
+ */
+export async function deleteOfflinePack(id: string): Promise<void> {
+    // A running download has to wind down first (in-flight tile writes), which can take a while
+    const reply = await requestFromWorker<{ ok: boolean; error?: string }>({ type: 'DELETE_PACK', id }, DELETE_PACK_TIMEOUT_MS);
+    if (!reply?.ok) {
+        throw new Error(reply?.error ?? 'The service worker did not confirm the delete');
+    }
+}
+
+/**
+ * Subscribe to pack download progress broadcast by the service worker
+ * Returns an unsubscribe function.
+ */
+export function onOfflinePackProgress(callback: (pack: OfflinePack) => void): () => void {
+    if (typeof window === 'undefined' || !('serviceWorker' in navigator)) {
+        return () => {};
+    }
+
+    const handleMessage = (event: MessageEvent) => {
+        if (event.data?.type === 'PACK_PROGRESS') {
+            callback(event.data.pack as OfflinePack);
+        }
+    };
+
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+}
@@ -0,0 +1,31 @@
+// Authentication for the tile cache admin endpoints (/api/tiles/purge, /namespace, /seed)
+// Requests must send `Authorization: Bearer <TILE_ADMIN_TOKEN>`. Without the env var set,
+// the admin endpoints are disabled.
+
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Check the admin bearer token
+ * Returns an error response to send back, or null when the request is authorised.
+ */
+export function requireTileAdmin(request: NextRequest): NextResponse | null {
+    const adminToken = process.env.TILE_ADMIN_TOKEN;
+
+    if (!adminToken) {
+        return NextResponse.json({ status: 'error', error: 'Tile admin API is disabled' }, { status: 503 });
+    }
+
+    const header = request.headers.get('authorization') ?? '';
+    const provided = Buffer.from(header.replace(/^Bearer\s+/i, ''));
+    const expected = Buffer.from(adminToken);
+
+    if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+        return NextResponse.json(
+            { status: 'error', error: 'Unauthorized' },
+            { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+        );
+    }
+
+    return null;
+}
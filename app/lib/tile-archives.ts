@@ -0,0 +1,191 @@
+// Local tile archives - MBTiles (SQLite) and PMTiles files used as tile sources
+// A source url or mirror of the form mbtiles://<file> or pmtiles://<file> is read from disk
+// instead of fetched, so the map keeps working on a field laptop with no connectivity.
+// Relative paths resolve against TILE_ARCHIVE_DIR (default ./tiles). PMTiles are read with
+// range reads (header, directories, then just the tile's bytes), never loaded whole.
+
+import Database from 'better-sqlite3';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PMTiles, RangeResponse, Source, TileType } from 'pmtiles';
+import { ARCHIVE_URL_PATTERN } from './tile-sources';
+
+export type ArchiveTileResult =
+    | { ok: true; data: Buffer; contentType: string | null; lastModified: string }
+    | { ok: false; status: number; message: string };
+
+interface OpenArchive {
+    getTile(z: number, x: number, y: number): Promise<Buffer | null>;
+    contentType: string | null;
+    lastModified: string;
+    close(): Promise<void> | void;
+}
+
+const ARCHIVE_DIR = process.env.TILE_ARCHIVE_DIR || path.join(process.cwd(), 'tiles');
+
+// Open archives by file path - reopened when the file changes on disk
+const archives = new Map<string, { mtimeMs: number; archive: Promise<OpenArchive> }>();
+// Lookups in progress by file path - concurrent requests share one stat and open
+const lookups = new Map<string, Promise<OpenArchive>>();
+
+const FORMAT_CONTENT_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+    avif: 'image/avif',
+    pbf: 'application/x-protobuf',
+    mvt: 'application/x-protobuf',
+};
+
+const PMTILES_CONTENT_TYPES: Partial<Record<TileType, string>> = {
+    [TileType.Png]: 'image/png',
+    [TileType.Jpeg]: 'image/jpeg',
+    [TileType.Webp]: 'image/webp',
+    [TileType.Avif]: 'image/avif',
+    [TileType.Mvt]: 'application/x-protobuf',
+};
+
+/**
+ * PMTiles byte source backed by a local file
+ * Each read is a positioned read on one shared file handle.
+ */
+class LocalFileSource implements Source {
+    private handle: Promise<fs.FileHandle>;
+
+    constructor(private filePath: string) {
+        this.handle = fs.open(filePath, 'r');
+    }
+
+    getKey(): string {
+        return this.filePath;
+    }
+
+    async getBytes(offset: number, length: number): Promise<RangeResponse> {
+        const handle = await this.handle;
+        const buffer = Buffer.alloc(length);
+        const { bytesRead } = await handle.read(buffer, 0, length, offset);
+        return { data: buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + bytesRead) as ArrayBuffer };
+    }
+
+    async close(): Promise<void> {
+        await (await this.handle).close();
+    }
+}
+
+async function openPMTiles(filePath: string, lastModified: string): Promise<OpenArchive> {
+    const source = new LocalFileSource(filePath);
+    const archive = new PMTiles(source);
+
+    try {
+        const header = await archive.getHeader();
+        return {
+            contentType: PMTILES_CONTENT_TYPES[header.tileType] ?? null,
+            lastModified,
+            // Tiles come back decompressed (the archive's tileCompression is undone by the reader)
+            async getTile(z, x, y) {
+                const tile = await archive.getZxy(z, x, y);
+                return tile ? Buffer.from(tile.data) : null;
+            },
+            close: () => source.close(),
+        };
+    } catch (error) {
+        await source.close();
+        throw error;
+    }
+}
+
+function openMBTiles(filePath: string, lastModified: string): OpenArchive {
+    const db = new Database(filePath, { readonly: true, fileMustExist: true });
+    const format = db.prepare('SELECT value FROM metadata WHERE name = ?').get('format') as { value: string } | undefined;
+    const select = db.prepare('SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?');
+
+    return {
+        contentType: format ? FORMAT_CONTENT_TYPES[format.value.toLowerCase()] ?? null : null,
+        lastModified,
+        async getTile(z, x, y) {
+            // MBTiles rows use TMS numbering - y counts up from the south
+            const row = select.get(z, x, Math.pow(2, z) - 1 - y) as { tile_data: Buffer } | undefined;
+            return row ? row.tile_data : null;
+        },
+        close: () => {
+            db.close();
+        },
+    };
+}
+
+/**
+ * Open (or reuse) the archive a template points at
+ * Replacing the file on disk (a fresh export) is picked up on the next request.
+ */
+function getArchive(format: string, filePath: string): Promise<OpenArchive> {
+    const pending = lookups.get(filePath);
+    if (pending) {
+        return pending;
+    }
+
+    const lookup = lookupArchive(format, filePath).finally(() => lookups.delete(filePath));
+    lookups.set(filePath, lookup);
+    return lookup;
+}
+
+async function lookupArchive(format: string, filePath: string): Promise<OpenArchive> {
+    const stat = await fs.stat(filePath);
+    const open = archives.get(filePath);
+
+    if (open && open.mtimeMs === stat.mtimeMs) {
+        return open.archive;
+    }
+
+    if (open) {
+        open.archive.then((archive) => archive.close()).catch(() => {});
+    }
+
+    const lastModified = stat.mtime.toUTCString();
+    const archive = format === 'pmtiles'
+        ? openPMTiles(filePath, lastModified)
+        : Promise.resolve().then(() => openMBTiles(filePath, lastModified));
+
+    const entry = { mtimeMs: stat.mtimeMs, archive };
+    archives.set(filePath, entry);
+    archive.catch(() => {
+        if (archives.get(filePath) === entry) archives.delete(filePath);
+    });
+
+    console.log(`[TileArchive] Opened ${format} archive ${filePath}`);
+    return archive;
+}
+
+/**
+ * Read one tile from a local archive template (mbtiles://file or pmtiles://file)
+ * A tile missing from the archive is a 404; a missing or unreadable archive is a 503,
+ * so the next mirror (e.g. the online upstream) gets a chance.
+ */
+export async function readArchiveTile(template: string, z: number, x: number, y: number): Promise<ArchiveTileResult> {
+    const match = ARCHIVE_URL_PATTERN.exec(template);
+    if (!match) {
+        return { ok: false, status: 500, message: 'Not a tile archive' };
+    }
+
+    const [, format, file] = match;
+    const filePath = path.resolve(ARCHIVE_DIR, file);
+
+    try {
+        const archive = await getArchive(format, filePath);
+        const data = await archive.getTile(z, x, y);
+
+        if (!data) {
+            return { ok: false, status: 404, message: 'Tile not found' };
+        }
+
+        return { ok: true, data, contentType: archive.contentType, lastModified: archive.lastModified };
+    } catch (error) {
+        // An archive that isn't installed is expected (e.g. a pmtiles source with an mbtiles mirror)
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return { ok: false, status: 503, message: 'Tile archive not installed' };
+        }
+
+        console.error(`[TileArchive] Failed to read ${z}/${x}/${y} from ${filePath}:`, error);
+        return { ok: false, status: 503, message: 'Tile archive unavailable' };
+    }
+}
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { UpstreamHealth } from './tile-health';
+
+// The breaker keeps per-process state, so every test uses its own mirror
+let mirrorId = 0;
+const newMirror = () => `https://mirror-${++mirrorId}.example.com`;
+
+const statusOf = (mirror: string) => UpstreamHealth.snapshot().find((entry) => entry.mirror === mirror)?.status;
+
+function openCircuit(mirror: string): void {
+    for (let i = 0; i < 3; i++) {
+        UpstreamHealth.recordFailure(mirror, 'HTTP 503');
+    }
+}
+
+describe('UpstreamHealth', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('opens after three consecutive failures', () => {
+        const mirror = newMirror();
+
+        UpstreamHealth.recordFailure(mirror, 'HTTP 503');
+        UpstreamHealth.recordFailure(mirror, 'HTTP 503');
+        expect(UpstreamHealth.isAvailable(mirror)).toBe(true);
+        expect(statusOf(mirror)).toBe('closed');
+
+        UpstreamHealth.recordFailure(mirror, 'HTTP 503');
+        expect(UpstreamHealth.isAvailable(mirror)).toBe(false);
+        expect(statusOf(mirror)).toBe('open');
+    });
+
+    it('resets the failure count on success', () => {
+        const mirror = newMirror();
+
+        UpstreamHealth.recordFailure(mirror, 'HTTP 503');
+        UpstreamHealth.recordFailure(mirror, 'HTTP 503');
+        UpstreamHealth.recordSuccess(mirror);
+        UpstreamHealth.recordFailure(mirror, 'HTTP 503');
+
+        expect(UpstreamHealth.isAvailable(mirror)).toBe(true);
+    });
+
+    it('lets a single trial request through once the cool-down has passed', () => {
+        const mirror = newMirror();
+        openCircuit(mirror);
+
+        vi.advanceTimersByTime(30_000);
+        expect(statusOf(mirror)).toBe('half-open');
+        expect(UpstreamHealth.isAvailable(mirror)).toBe(true);
+        expect(UpstreamHealth.isAvailable(mirror)).toBe(false);
+    });
+
+    it('closes when the trial request succeeds', () => {
+        const mirror = newMirror();
+        openCircuit(mirror);
+        vi.advanceTimersByTime(30_000);
+
+        UpstreamHealth.isAvailable(mirror);
+        UpstreamHealth.recordSuccess(mirror);
+
+        expect(statusOf(mirror)).toBe('closed');
+        expect(UpstreamHealth.isAvailable(mirror)).toBe(true);
+        expect(UpstreamHealth.isAvailable(mirror)).toBe(true);
+    });
+
+    it('re-opens straight away when the trial request fails', () => {
+        const mirror = newMirror();
+        openCircuit(mirror);
+        vi.advanceTimersByTime(30_000);
+
+        UpstreamHealth.isAvailable(mirror);
+        UpstreamHealth.recordFailure(mirror, 'timeout');
+
+        expect(statusOf(mirror)).toBe('open');
+        expect(UpstreamHealth.isAvailable(mirror)).toBe(false);
+
+        vi.advanceTimersByTime(30_000);
+        expect(UpstreamHealth.isAvailable(mirror)).toBe(true);
+    });
+
+    it('allows another trial when one never reports back', () => {
+        const mirror = newMirror();
+        openCircuit(mirror);
+        vi.advanceTimersByTime(30_000);
+
+        expect(UpstreamHealth.isAvailable(mirror)).toBe(true);
+        vi.advanceTimersByTime(29_999);
+        expect(UpstreamHealth.isAvailable(mirror)).toBe(false);
+        vi.advanceTimersByTime(1);
+        expect(UpstreamHealth.isAvailable(mirror)).toBe(true);
+    });
+});
@@ -0,0 +1,98 @@
+// Upstream mirror health tracking - per-process circuit breaker
+// A mirror that fails repeatedly (5xx, timeouts, network errors) is skipped for a
+// cool-down period. Then the circuit is half-open: a single trial request is let through, closing it
+// on success and re-opening it on failure, while all other requests keep skipping the mirror.
+
+// Consecutive failures before the circuit opens
+const FAILURE_THRESHOLD = 3;
+// How long an open circuit skips the mirror before allowing a trial request
+const OPEN_DURATION_MS = 30_000;
+// A trial request that never reports back stops blocking the next one after this long
+const PROBE_TIMEOUT_MS = 30_000;
+
+interface MirrorState {
+    consecutiveFailures: number;
+    /** 0 while the circuit is closed */
+    openUntil: number;
+    /** When the half-open trial request was let through, null when none is in flight */
+    probeStartedAt: number | null;
+    lastFailureAt: number | null;
+    lastError: string | null;
+}
+
+const mirrors = new Map<string, MirrorState>();
+
+function getState(mirror: string): MirrorState {
+    let state = mirrors.get(mirror);
+    if (!state) {
+        state = { consecutiveFailures: 0, openUntil: 0, probeStartedAt: null, lastFailureAt: null, lastError: null };
+        mirrors.set(mirror, state);
+    }
+    return state;
+}
+
+export const UpstreamHealth = {
+    /**
+     * Whether a request may be sent to this mirror
+     * Closed circuits always pass. Once an open circuit's cool-down has elapsed it is half-open: exactly one
+     * caller gets true and becomes the trial request, everyone else is refused until it reports back.
+     * Callers that get true must report the outcome with recordSuccess or recordFailure.
+     */
+    isAvailable(mirror: string): boolean {
+        const state = mirrors.get(mirror);
+        const now = Date.now();
+        if (!state || state.openUntil === 0) return true;
+        if (now < state.openUntil) return false;
+
+        if (state.probeStartedAt !== null && now - state.probeStartedAt < PROBE_TIMEOUT_MS) {
+            return false;
+        }
+        state.probeStartedAt = now;
+        return true;
+    },
+
+    recordSuccess(mirror: string): void {
+        const state = getState(mirror);
+        if (state.openUntil !== 0) {
+            console.log(`[TileHealth] Circuit CLOSED for ${mirror}`);
+        }
+        state.consecutiveFailures = 0;
+        state.openUntil = 0;
+        state.probeStartedAt = null;
+    },
+
+    recordFailure(mirror: string, error: string): void {
+        const state = getState(mirror);
+        const wasProbe = state.probeStartedAt !== null;
+        state.consecutiveFailures++;
+        state.lastFailureAt = Date.now();
+        state.lastError = error;
+        state.probeStartedAt = null;
+
+        // A failed trial request re-opens the circuit straight away
+        if (wasProbe || state.consecutiveFailures >= FAILURE_THRESHOLD) {
+            state.openUntil = Date.now() + OPEN_DURATION_MS;
+            console.warn(`[TileHealth] Circuit OPEN for ${mirror} after ${state.consecutiveFailures} failures (${error})`);
+        }
+    },
+
+    /**
+     * Current state of every mirror seen by this process (for the stats endpoint)
+     */
+    snapshot(): Array<{
+        mirror: string;
+        status: 'closed' | 'open' | 'half-open';
+        consecutiveFailures: number;
+        lastFailureAt: string | null;
+        lastError: string | null;
+    }> {
+        const now = Date.now();
+        return Array.from(mirrors.entries()).map(([mirror, state]) => ({
+            mirror,
+            status: state.openUntil === 0 ? 'closed' : state.openUntil > now ? 'open' : 'half-open',
+            consecutiveFailures: state.consecutiveFailures,
+            lastFailureAt: state.lastFailureAt ? new Date(state.lastFailureAt).toISOString() : null,
+            lastError: state.lastError,
+        }));
+    },
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { bboxToTileRange, countTilesInRange, intersectBBox, splitAtAntimeridian } from './tile-math';
+
+describe('bboxToTileRange', () => {
+    it('covers the whole world with one tile at zoom 0', () => {
+        expect(bboxToTileRange({ w: -180, s: -90, e: 180, n: 90 }, 0)).toEqual({ z: 0, minX: 0, maxX: 0, minY: 0, maxY: 0 });
+    });
+
+    it('maps north to the smaller y', () => {
+        // Just north-east of (0, 0): the tile right of and above the centre at z2
+        expect(bboxToTileRange({ w: 1, s: 1, e: 2, n: 2 }, 2)).toEqual({ z: 2, minX: 2, maxX: 2, minY: 1, maxY: 1 });
+
+        const range = bboxToTileRange({ w: -10, s: -10, e: 10, n: 10 }, 1);
+        expect(range).toEqual({ z: 1, minX: 0, maxX: 1, minY: 0, maxY: 1 });
+        expect(countTilesInRange(range)).toBe(4);
+    });
+
+    it('clamps the poles and the edges of the world to valid tiles', () => {
+        expect(bboxToTileRange({ w: -180, s: -90, e: 180, n: 90 }, 2)).toEqual({ z: 2, minX: 0, maxX: 3, minY: 0, maxY: 3 });
+    });
+});
+
+describe('intersectBBox', () => {
+    it('returns the overlap', () => {
+        expect(intersectBBox({ w: 0, s: 0, e: 10, n: 10 }, { w: 5, s: -5, e: 15, n: 5 })).toEqual({ w: 5, s: 0, e: 10, n: 5 });
+    });
+
+    it('keeps boxes that only share an edge', () => {
+        expect(intersectBBox({ w: 0, s: 0, e: 10, n: 10 }, { w: 10, s: 0, e: 20, n: 10 })).toEqual({ w: 10, s: 0, e: 10, n: 10 });
+    });
+
+    it('returns null for disjoint boxes', () => {
+        expect(intersectBBox({ w: 0, s: 0, e: 10, n: 10 }, { w: 11, s: 0, e: 20, n: 10 })).toBeNull();
+        expect(intersectBBox({ w: 0, s: 0, e: 10, n: 10 }, { w: 0, s: 11, e: 10, n: 20 })).toBeNull();
+    });
+});
+
+describe('splitAtAntimeridian', () => {
+    it('leaves a bbox within ±180 alone', () => {
+        expect(splitAtAntimeridian({ w: 110, s: -45, e: 155, n: -10 })).toEqual([{ w: 110, s: -45, e: 155, n: -10 }]);
+    });
+
+    it('splits a bbox crossing the antimeridian', () => {
+        expect(splitAtAntimeridian({ w: 170, s: -50, e: 190, n: -30 })).toEqual([
+            { w: 170, s: -50, e: 180, n: -30 },
+            { w: -180, s: -50, e: -170, n: -30 },
+        ]);
+    });
+
+    it('shifts a wrapped copy of the world back', () => {
+        expect(splitAtAntimeridian({ w: 470, s: 0, e: 480, n: 10 })).toEqual([{ w: 110, s: 0, e: 120, n: 10 }]);
+        expect(splitAtAntimeridian({ w: -250, s: 0, e: -240, n: 10 })).toEqual([{ w: 110, s: 0, e: 120, n: 10 }]);
+    });
+
+    it('turns a bbox of 360° or more into the whole world', () => {
+        expect(splitAtAntimeridian({ w: -300, s: -10, e: 100, n: 10 })).toEqual([{ w: -180, s: -10, e: 180, n: 10 }]);
+    });
+});
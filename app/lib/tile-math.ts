@@ -0,0 +1,141 @@
+// Web Mercator (XYZ / slippy map) tile math shared by the map, the tile proxy and its admin tools
+
+/** Geographic bounding box in degrees (same shape as the /api/scan body) */
+export interface LngLatBBox {
+    w: number;
+    s: number;
+    e: number;
+    n: number;
+}
+
+/** Inclusive tile index range covering a bounding box at one zoom level */
+export interface TileRange {
+    z: number;
+    minX: number;
+    maxX: number;
+    minY: number;
+    maxY: number;
+}
+
+// Web Mercator is undefined at the poles - tiles stop at ±85.0511°
+const MAX_LATITUDE = 85.05112878;
+
+function clampTile(index: number, zoom: number): number {
+    return Math.min(Math.max(index, 0), Math.pow(2, zoom) - 1);
+}
+
+export function lngToTileX(lng: number, zoom: number): number {
+    return clampTile(Math.floor(((lng + 180) / 360) * Math.pow(2, zoom)), zoom);
+}
+
+export function latToTileY(lat: number, zoom: number): number {
+    const latRad = (Math.min(Math.max(lat, -MAX_LATITUDE), MAX_LATITUDE) * Math.PI) / 180;
+    return clampTile(
+        Math.floor(((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * Math.pow(2, zoom)),
+        zoom
+    );
+}
+
+/**
+ * Fractional tile coordinates of a point - the integer part is the tile, the rest the position inside it
+ */
+export function lngLatToTileFraction(lng: number, lat: number, zoom: number): { x: number; y: number } {
+    const tiles = Math.pow(2, zoom);
+    const latRad = (Math.min(Math.max(lat, -MAX_LATITUDE), MAX_LATITUDE) * Math.PI) / 180;
+    return {
+        x: ((lng + 180) / 360) * tiles,
+        y: ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * tiles,
+    };
+}
+
+/**
+ * Tile range covering a bounding box (north maps to the smaller y)
+ */
+export function bboxToTileRange(bbox: LngLatBBox, zoom: number): TileRange {
+    return {
+        z: zoom,
+        minX: lngToTileX(bbox.w, zoom),
+        maxX: lngToTileX(bbox.e, zoom),
+        minY: latToTileY(bbox.n, zoom),
+        maxY: latToTileY(bbox.s, zoom),
+    };
+}
+
+export function isTileInRange(range: TileRange, x: number, y: number): boolean {
+    return x >= range.minX && x <= range.maxX && y >= range.minY && y <= range.maxY;
+}
+
+export function countTilesInRange(range: TileRange): number {
+    return (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1);
+}
+
+// Half the circumference of the EPSG:3857 world in meters
+const MERCATOR_EXTENT = 20037508.342789244;
+
+/**
+ * EPSG:3857 bounds of a tile in meters as [minX, minY, maxX, maxY] (the WMS BBOX order)
+ */
+export function tileToMercatorBBox(z: number, x: number, y: number): [number, number, number, number] {
+    const size = (2 * MERCATOR_EXTENT) / Math.pow(2, z);
+    return [
+        -MERCATOR_EXTENT + x * size,
+        MERCATOR_EXTENT - (y + 1) * size,
+        -MERCATOR_EXTENT + (x + 1) * size,
+        MERCATOR_EXTENT - y * size,
+    ];
+}
+
+/**
+ * Number of tiles covering a bounding box over a zoom range (inclusive)
+ */
+export function estimateTileCount(bbox: LngLatBBox, minZoom: number, maxZoom: number): number {
+    let total = 0;
+    for (let z = minZoom; z <= maxZoom; z++) {
+        total += countTilesInRange(bboxToTileRange(bbox, z));
+    }
+    return total;
+}
+
+/**
+ * Overlap of two bounding boxes, or null when they don't intersect
+ */
+export function intersectBBox(a: LngLatBBox, b: LngLatBBox): LngLatBBox | null {
+    const bbox = {
+        w: Math.max(a.w, b.w),
+        s: Math.max(a.s, b.s),
+        e: Math.min(a.e, b.e),
+        n: Math.min(a.n, b.n),
+    };
+    return bbox.w <= bbox.e && bbox.s <= bbox.n ? bbox : null;
+}
+
+/**
+ * A bbox with real longitudes (within ±180), split in two where it crosses the antimeridian
+ * Map bounds run past ±180 once the view wraps around the world; this shifts them back onto the
+ * real world. A bbox spanning 360° or more becomes the whole world.
+ */
+export function splitAtAntimeridian(bbox: LngLatBBox): LngLatBBox[] {
+    const { s, n } = bbox;
+    if (bbox.e - bbox.w >= 360) {
+        return [{ w: -180, s, e: 180, n }];
+    }
+
+    const shift = Math.floor((bbox.w + 180) / 360) * 360;
+    const w = bbox.w - shift;
+    const e = bbox.e - shift;
+    return e <= 180 ? [{ w, s, e, n }] : [{ w, s, e: 180, n }, { w: -180, s, e: e - 360, n }];
+}
+
+/**
+ * Square bounding box extending radiusKm around a point (equirectangular approximation)
+ */
+export function bboxAroundPoint(lng: number, lat: number, radiusKm: number): LngLatBBox {
+    const dLat = radiusKm / 110.574;
+    const dLng = radiusKm / (111.32 * Math.cos((lat * Math.PI) / 180));
+    return {
+        w: Math.max(lng - dLng, -180),
+        s: Math.max(lat - dLat, -90),
+        e: Math.min(lng + dLng, 180),
+        n: Math.min(lat + dLat, 90),
+    };
+}
@@ -0,0 +1,146 @@
+// Overzoomed raster tiles - synthesized from the nearest available parent when upstream has nothing
+// Used past a source's native maxZoom (up to maxOverzoom levels) and for gaps inside its native range
+// (upstream 404). The parent quadrant covering the tile is cropped and upscaled with sharp.
+// Results are cached under the source's overzoom cache name so they never mix with native tiles;
+// a gap filled upstream later takes over once its derivative expires.
+
+import sharp from 'sharp';
+import { TileMetrics } from './metrics';
+import { TileCache } from './redis';
+import { TILE_SOURCES, TileSourceDefinition, TileSourceId, getOverzoomCacheId } from './tile-sources';
+import { fetchTileCoalesced } from './tile-upstream';
+
+export type OverzoomTileResult =
+    | { ok: true; data: Buffer; contentType: string; cached: boolean; parentZoom: number | null }
+    | { ok: false; status: number; message: string };
+
+/**
+ * Nearest parent tile that exists - Redis first, then upstream (which caches it natively)
+ * Walks up from z - minLevels to z - maxOverzoom, skipping levels upstream reports missing.
+ */
+async function findParentTile(
+    source: TileSourceId,
+    z: number,
+    x: number,
+    y: number,
+    minLevels: number
+): Promise<{ ok: true; data: Buffer; contentType: string; levels: number } | { ok: false; status: number; message: string }> {
+    const sourceConfig: TileSourceDefinition = TILE_SOURCES[source];
+    const maxLevels = Math.min(sourceConfig.maxOverzoom ?? 0, z - sourceConfig.minZoom);
+
+    for (let levels = minLevels; levels <= maxLevels; levels++) {
+        const pz = z - levels;
+        const px = x >> levels;
+        const py = y >> levels;
+
+        try {
+            const cached = await TileCache.get(source, pz, px, py);
+            if (cached) {
+                return { ok: true, data: cached.data, contentType: cached.contentType, levels };
+            }
+        } catch (redisError) {
+            console.error(`[TileOverzoom] Redis error for parent ${source}/${pz}/${px}/${py}:`, redisError);
+            TileMetrics.recordRedisError('get');
+        }
+
+        const { result } = await fetchTileCoalesced(source, pz, px, py);
+        if (result.ok) {
+            return { ok: true, data: result.data, contentType: result.contentType, levels };
+        }
+        if (result.status !== 404) {
+            return result;
+        }
+    }
+
+    return { ok: false, status: 404, message: 'Tile not found' };
+}
+
+/** Crop the tile's quadrant out of a parent `levels` zoom levels up and scale it back to full size */
+async function upscaleFromParent(parent: Buffer, levels: number, x: number, y: number): Promise<Buffer> {
+    const image = sharp(parent);
+    const { width, height, format } = await image.metadata();
+    if (!width || !height) {
+        throw new Error('Parent tile has no dimensions');
+    }
+
+    const scale = Math.pow(2, levels);
+    const size = Math.floor(width / scale);
+    if (size < 1) {
+        throw new Error(`Cannot overzoom ${levels} levels from a ${width}px tile`);
+    }
+
+    const cropped = image
+        .extract({ left: (x % scale) * size, top: (y % scale) * size, width: size, height: size })
+        .resize(width, height, { kernel: 'lanczos3' });
+
+    // Keep the parent's format so the content type still holds
+    if (format === 'jpeg') return cropped.jpeg({ quality: 90 }).toBuffer();
+    if (format === 'webp') return cropped.webp({ quality: 90 }).toBuffer();
+    return cropped.png().toBuffer();
+}
+
+/**
+ * Fresh overzoomed tile from the overzoom cache, or null
+ * Lets known gaps skip the upstream request that would 404 again.
+ */
+export async function getCachedOverzoomTile(
+    source: TileSourceId,
+    z: number,
+    x: number,
+    y: number
+): Promise<{ data: Buffer; contentType: string } | null> {
+    const cacheId = getOverzoomCacheId(source);
+    try {
+        const cached = await TileCache.get(cacheId, z, x, y);
+        return cached && !cached.stale ? { data: cached.data, contentType: cached.contentType } : null;
+    } catch (redisError) {
+        console.error(`[TileOverzoom] Redis error for ${cacheId}/${z}/${x}/${y}:`, redisError);
+        TileMetrics.recordRedisError('get');
+        return null;
+    }
+}
+
+/**
+ * Serve a raster tile by upscaling its nearest parent
+ * Past maxZoom the search starts at the first native level, for a gap at the level above.
+ * parentZoom is the zoom the tile was made from (null when served from the overzoom cache).
+ */
+export async function fetchOverzoomTile(source: TileSourceId, z: number, x: number, y: number): Promise<OverzoomTileResult> {
+    const sourceConfig: TileSourceDefinition = TILE_SOURCES[source];
+    const cacheId = getOverzoomCacheId(source);
+    const minLevels = Math.max(1, z - sourceConfig.maxZoom);
+    let stale: { data: Buffer; contentType: string } | null = null;
+
+    try {
+        const cached = await TileCache.get(cacheId, z, x, y);
+        if (cached && !cached.stale) {
+            return { ok: true, data: cached.data, contentType: cached.contentType, cached: true, parentZoom: null };
+        }
+        // Past its TTL the parent may have changed (or filled in) - rebuild, keeping this as a fallback
+        stale = cached;
+    } catch (redisError) {
+        console.error(`[TileOverzoom] Redis error for ${cacheId}/${z}/${x}/${y}:`, redisError);
+        TileMetrics.recordRedisError('get');
+    }
+
+    const parent = await findParentTile(source, z, x, y, minLevels);
+    if (!parent.ok) {
+        return stale ? { ok: true, ...stale, cached: true, parentZoom: null } : parent;
+    }
+
+    let data: Buffer;
+    try {
+        data = await upscaleFromParent(parent.data, parent.levels, x, y);
+    } catch (error) {
+        console.error(`[TileOverzoom] Failed to upscale ${source}/${z}/${x}/${y}:`, error);
+        return { ok: false, status: 502, message: 'Failed to overzoom tile' };
+    }
+
+    TileCache.set(cacheId, z, x, y, data, parent.contentType).catch((err) => {
+        console.error(`[TileOverzoom] Failed to cache ${cacheId}/${z}/${x}/${y}:`, err);
+        TileMetrics.recordRedisError('set');
+    });
+
+    console.log(`[TileOverzoom] Synthesized ${source}/${z}/${x}/${y} from z${z - parent.levels}`);
+    return { ok: true, data, contentType: parent.contentType, cached: false, parentZoom: z - parent.levels };
+}
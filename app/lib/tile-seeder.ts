@@ -0,0 +1,304 @@
+// Server-side cache seeding - pre-warms Redis with every tile of a region
+// A job covers a bbox (or a named FLIGHT_DECK_DESTINATIONS city/state), a list of sources and
+// a zoom range. Tiles already cached are skipped; the rest go through fetchTileCoalesced so
+// seeding shares upstream requests with live traffic, but never falls back to a source that
+// forbids bulk downloads. Job progress lives in Redis so any instance can report or cancel it.
+
+import { randomUUID } from 'crypto';
+import { getRedisClient, TileCache } from './redis';
+import { fetchTileCoalesced } from './tile-upstream';
+import { CITIES, FLIGHT_DECK_DESTINATIONS } from './constants';
+import {
+    LngLatBBox,
+    bboxAroundPoint,
+    bboxToTileRange,
+    estimateTileCount,
+    intersectBBox,
+} from './tile-math';
+import { TILE_SOURCES, TileSourceDefinition, TileSourceId } from './tile-sources';
+
+// Upper bound per job - roughly a city at z10-17 for two sources
+export const MAX_SEED_TILES = 100_000;
+export const MAX_SEED_CONCURRENCY = 16;
+export const DEFAULT_SEED_RADIUS_KM = 10;
+
+const JOB_PREFIX = 'tile:seed:';
+// Finished jobs stay queryable for a week
+const JOB_TTL_SECONDS = 7 * 24 * 60 * 60;
+// Progress is written back (and cancellation checked) this often
+const PROGRESS_INTERVAL_MS = 2000;
+// A running job whose record hasn't been written for this long has lost its worker
+// (the function hit maxDuration or the instance died)
+const STALE_JOB_MS = 2 * 60 * 1000;
+
+export type SeedJobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface SeedJob {
+    id: string;
+    status: SeedJobStatus;
+    region: string | null;
+    bbox: LngLatBBox;
+    sources: TileSourceId[];
+    minZoom: number;
+    maxZoom: number;
+    concurrency: number;
+    total: number;
+    fetched: number;
+    skipped: number;
+    failed: number;
+    bytes: number;
+    createdAt: string;
+    updatedAt: string;
+    finishedAt: string | null;
+    error: string | null;
+}
+
+export interface SeedRequest {
+    sources: TileSourceId[];
+    minZoom: number;
+    maxZoom: number;
+    bbox: LngLatBBox;
+    region?: string | null;
+    concurrency: number;
+}
+
+/**
+ * Bounding box of a named region
+ * Matches a FLIGHT_DECK_DESTINATIONS city or CITIES entry (radiusKm around it), or a
+ * FLIGHT_DECK_DESTINATIONS state (every destination in it plus radiusKm). Case-insensitive.
+ */
+export function resolveSeedRegion(name: string, radiusKm: number = DEFAULT_SEED_RADIUS_KM): LngLatBBox | null {
+    const wanted = name.trim().toLowerCase();
+    const states: Record<string, Record<string, readonly number[]>> = FLIGHT_DECK_DESTINATIONS;
+
+    for (const [state, destinations] of Object.entries(states)) {
+        const points = Object.values(destinations);
+
+        if (state.toLowerCase() === wanted && points.length > 0) {
+            return points
+                .map(([lng, lat]) => bboxAroundPoint(lng, lat, radiusKm))
+                .reduce((a, b) => ({
+                    w: Math.min(a.w, b.w),
+                    s: Math.min(a.s, b.s),
+                    e: Math.max(a.e, b.e),
+                    n: Math.max(a.n, b.n),
+                }));
+        }
+
+        for (const [city, [lng, lat]] of Object.entries(destinations)) {
+            if (city.toLowerCase() === wanted) {
+                return bboxAroundPoint(lng, lat, radiusKm);
+            }
+        }
+    }
+
+    for (const [city, [lng, lat]] of Object.entries(CITIES)) {
+        if (city.toLowerCase() === wanted) {
+            return bboxAroundPoint(lng, lat, radiusKm);
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Part of the bbox and zoom range a source can actually serve (null when nothing overlaps)
+ */
+function getSourceCoverage(
+    sourceConfig: TileSourceDefinition,
+    bbox: LngLatBBox,
+    minZoom: number,
+    maxZoom: number
+): { bbox: LngLatBBox; minZoom: number; maxZoom: number } | null {
+    const fromZoom = Math.max(minZoom, sourceConfig.minZoom);
+    const toZoom = Math.min(maxZoom, sourceConfig.maxZoom);
+    if (fromZoom > toZoom) {
+        return null;
+    }
+
+    const [w, s, e, n] = sourceConfig.bounds ?? [-180, -90, 180, 90];
+    const covered = intersectBBox(bbox, { w, s, e, n });
+    return covered ? { bbox: covered, minZoom: fromZoom, maxZoom: toZoom } : null;
+}
+
+/**
+ * Number of tiles a seed job would fetch, per source
+ */
+export function estimateSeedTiles(
+    sources: TileSourceId[],
+    bbox: LngLatBBox,
+    minZoom: number,
+    maxZoom: number
+): Record<string, number> {
+    const estimate: Record<string, number> = {};
+
+    for (const source of sources) {
+        const coverage = getSourceCoverage(TILE_SOURCES[source], bbox, minZoom, maxZoom);
+        estimate[source] = coverage ? estimateTileCount(coverage.bbox, coverage.minZoom, coverage.maxZoom) : 0;
+    }
+
+    return estimate;
+}
+
+/** Every tile of the job, lazily - low zooms first so a partial seed is still useful */
+function* iterateSeedTiles(job: SeedJob): Generator<{ source: TileSourceId; z: number; x: number; y: number }> {
+    for (let z = job.minZoom; z <= job.maxZoom; z++) {
+        for (const source of job.sources) {
+            const coverage = getSourceCoverage(TILE_SOURCES[source], job.bbox, z, z);
+            if (!coverage) {
+                continue;
+            }
+
+            const range = bboxToTileRange(coverage.bbox, z);
+            for (let x = range.minX; x <= range.maxX; x++) {
+                for (let y = range.minY; y <= range.maxY; y++) {
+                    yield { source, z, x, y };
+                }
+            }
+        }
+    }
+}
+
+async function saveJob(job: SeedJob): Promise<void> {
+    job.updatedAt = new Date().toISOString();
+    await getRedisClient().setex(`${JOB_PREFIX}${job.id}`, JOB_TTL_SECONDS, JSON.stringify(job));
+}
+
+/**
+ * Look up a job - a 'running' job that stopped reporting progress is marked failed on read
+ * Running it again resumes it in effect, since tiles already cached are skipped.
+ */
+export async function getSeedJob(id: string): Promise<SeedJob | null> {
+    const raw = await getRedisClient().get(`${JOB_PREFIX}${id}`);
+    if (!raw) return null;
+
+    const job = JSON.parse(raw) as SeedJob;
+    if (job.status === 'running' && Date.now() - Date.parse(job.updatedAt) > STALE_JOB_MS) {
+        console.warn(`[TileSeeder] Job ${id} stopped reporting progress - marking it failed`);
+        job.status = 'failed';
+        job.finishedAt = job.updatedAt;
+        job.error = 'Job stopped before finishing (server timeout or restart) - start it again to resume';
+        await saveJob(job);
+    }
+    return job;
+}
+
+/**
+ * Create a job record - run it with runSeedJob
+ */
+export async function createSeedJob(request: SeedRequest): Promise<SeedJob> {
+    const estimate = estimateSeedTiles(request.sources, request.bbox, request.minZoom, request.maxZoom);
+    const now = new Date().toISOString();
+
+    const job: SeedJob = {
+        id: randomUUID(),
+        status: 'running',
+        region: request.region ?? null,
+        bbox: request.bbox,
+        sources: request.sources,
+        minZoom: request.minZoom,
+        maxZoom: request.maxZoom,
+        concurrency: Math.min(Math.max(request.concurrency, 1), MAX_SEED_CONCURRENCY),
+        total: Object.values(estimate).reduce((sum, count) => sum + count, 0),
+        fetched: 0,
+        skipped: 0,
+        failed: 0,
+        bytes: 0,
+        createdAt: now,
+        updatedAt: now,
+        finishedAt: null,
+        error: null,
+    };
+
+    await saveJob(job);
+    return job;
+}
+
+/**
+ * Ask a running job to stop - workers notice at their next progress update
+ */
+export async function cancelSeedJob(id: string): Promise<SeedJob | null> {
+    const job = await getSeedJob(id);
+    if (!job || job.status !== 'running') {
+        return job;
+    }
+
+    job.status = 'cancelled';
+    job.finishedAt = new Date().toISOString();
+    await saveJob(job);
+    return job;
+}
+
+/**
+ * Fetch every tile of a job with bounded concurrency, reporting progress to Redis
+ */
+export async function runSeedJob(id: string): Promise<void> {
+    const job = await getSeedJob(id);
+    if (!job || job.status !== 'running') {
+        return;
+    }
+
+    console.log(`[TileSeeder] Job ${id} started: ${job.total} tiles, ${job.sources.join(',')} z${job.minZoom}-${job.maxZoom}`);
+
+    const tiles = iterateSeedTiles(job);
+    let lastProgressAt = Date.now();
+    // Set when the stored job was cancelled, or marked failed as stale, elsewhere
+    let cancelled = false;
+
+    const reportProgress = async () => {
+        lastProgressAt = Date.now();
+        // Pick up a cancel issued from another instance before overwriting the record
+        const stored = await getSeedJob(id);
+        if (stored && stored.status !== 'running') {
+            cancelled = true;
+            return;
+        }
+        await saveJob(job);
+    };
+
+    const worker = async () => {
+        for (let next = tiles.next(); !next.done && !cancelled; next = tiles.next()) {
+            const { source, z, x, y } = next.value;
+
+            try {
+                if (await TileCache.has(source, z, x, y)) {
+                    job.skipped++;
+                } else {
+                    const { result } = await fetchTileCoalesced(source, z, x, y, { seeding: true });
+                    if (result.ok) {
+                        job.fetched++;
+                        job.bytes += result.data.length;
+                    } else {
+                        job.failed++;
+                    }
+                }
+            } catch (error) {
+                console.error(`[TileSeeder] Failed to seed ${source}/${z}/${x}/${y}:`, error);
+                job.failed++;
+            }
+
+            if (Date.now() - lastProgressAt >= PROGRESS_INTERVAL_MS) {
+                await reportProgress();
+            }
+        }
+    };
+
+    try {
+        await Promise.all(Array.from({ length: job.concurrency }, worker));
+
+        if (cancelled) {
+            console.log(`[TileSeeder] Job ${id} stopped early`);
+            return;
+        }
+
+        job.status = 'completed';
+    } catch (error) {
+        console.error(`[TileSeeder] Job ${id} failed:`, error);
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : String(error);
+    }
+
+    job.finishedAt = new Date().toISOString();
+    await saveJob(job);
+    console.log(`[TileSeeder] Job ${id} ${job.status}: ${job.fetched} fetched, ${job.skipped} cached, ${job.failed} failed`);
+}
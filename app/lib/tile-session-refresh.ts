@@ -0,0 +1,43 @@
+// Client side of the tile session (tile-session.ts): renews the cookie while the map is open
+// The cookie set on page load lasts a day; a tab left open longer would start getting 403s on every tile
+// and offline pack download without these renewals.
+
+const REFRESH_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+async function refreshTileSession(): Promise<void> {
+    try {
+        const res = await fetch('/api/tiles/session', { cache: 'no-store' });
+        if (!res.ok) {
+            console.warn(`[TileSession] Renewal failed: HTTP ${res.status}`);
+        }
+    } catch (error) {
+        console.warn('[TileSession] Renewal failed:', error);
+    }
+}
+
+/**
+ * Renew the tile session every few hours, and on returning to a tab whose timers were paused
+ * Returns a function that stops the renewals.
+ */
+export function keepTileSessionAlive(): () => void {
+    let lastRefreshAt = Date.now();
+
+    const refresh = () => {
+        lastRefreshAt = Date.now();
+        void refreshTileSession();
+    };
+
+    const handleVisibility = () => {
+        if (document.visibilityState === 'visible' && Date.now() - lastRefreshAt >= REFRESH_INTERVAL_MS) {
+            refresh();
+        }
+    };
+
+    const timer = setInterval(refresh, REFRESH_INTERVAL_MS);
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    return () => {
+        clearInterval(timer);
+        document.removeEventListener('visibilitychange', handleVisibility);
+    };
+}
@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TILE_SESSION_TTL_SECONDS, isValidTileSession, issueTileSession } from './tile-session';
+
+const SECRET = 'test-signing-secret';
+
+describe('tile sessions', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+        vi.stubEnv('TILE_SIGNING_SECRET', SECRET);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllEnvs();
+    });
+
+    it('issues nothing while signing is disabled', () => {
+        vi.stubEnv('TILE_SIGNING_SECRET', '');
+        expect(issueTileSession()).toBeNull();
+    });
+
+    it('accepts a session it issued until it expires', () => {
+        const session = issueTileSession()!;
+        expect(session.expiresAt.getTime()).toBe(Date.now() + TILE_SESSION_TTL_SECONDS * 1000);
+        expect(isValidTileSession(session.value, SECRET)).toBe(true);
+
+        vi.advanceTimersByTime(TILE_SESSION_TTL_SECONDS * 1000 - 1000);
+        expect(isValidTileSession(session.value, SECRET)).toBe(true);
+
+        vi.advanceTimersByTime(2000);
+        expect(isValidTileSession(session.value, SECRET)).toBe(false);
+    });
+
+    it('rejects sessions signed with another secret', () => {
+        const session = issueTileSession()!;
+        expect(isValidTileSession(session.value, 'another-secret')).toBe(false);
+    });
+
+    it('rejects a tampered expiry', () => {
+        const [expires, signature] = issueTileSession()!.value.split('.');
+        expect(isValidTileSession(`${Number(expires) + 86400}.${signature}`, SECRET)).toBe(false);
+    });
+
+    it('rejects missing and malformed values', () => {
+        expect(isValidTileSession(undefined, SECRET)).toBe(false);
+        expect(isValidTileSession('', SECRET)).toBe(false);
+        expect(isValidTileSession('not-a-session', SECRET)).toBe(false);
+        expect(isValidTileSession(`${Math.floor(Date.now() / 1000) + 60}.`, SECRET)).toBe(false);
+        expect(isValidTileSession('abc.def', SECRET)).toBe(false);
+    });
+});
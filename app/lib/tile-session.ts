@@ -0,0 +1,53 @@
+// Tile session cookie - lets the map's own pages load tiles when TILE_SIGNING_SECRET is set
+// proxy.ts sets it on page loads and GET /api/tiles/session renews it for long-lived map tabs; the tile
+// proxy accepts it in place of a signed URL. It is an HMAC of its expiry, so it can't be forged, but any
+// client that fetches a page gets one: it keeps long-lived tile URLs out of other apps and sites, and is
+// no protection against scraping - the tile rate limit is.
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+export const TILE_SESSION_COOKIE = 'tile_session';
+export const TILE_SESSION_TTL_SECONDS = 24 * 60 * 60;
+
+function sessionSignature(expires: number, secret: string): string {
+    return createHmac('sha256', secret).update(`session:${expires}`).digest('base64url');
+}
+
+export interface TileSession {
+    value: string;
+    expiresAt: Date;
+}
+
+/** A new session valid for TILE_SESSION_TTL_SECONDS, or null when signing is disabled */
+export function issueTileSession(): TileSession | null {
+    const secret = process.env.TILE_SIGNING_SECRET;
+    if (!secret) return null;
+
+    const expires = Math.floor(Date.now() / 1000) + TILE_SESSION_TTL_SECONDS;
+    return { value: `${expires}.${sessionSignature(expires, secret)}`, expiresAt: new Date(expires * 1000) };
+}
+
+export function isValidTileSession(value: string | undefined, secret: string): boolean {
+    const [exp, sig] = (value ?? '').split('.');
+    const expires = Number(exp);
+
+    if (!sig || !Number.isInteger(expires) || expires * 1000 < Date.now()) {
+        return false;
+    }
+
+    const provided = Buffer.from(sig);
+    const expected = Buffer.from(sessionSignature(expires, secret));
+    return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/** Attach a session cookie to a response */
+export function setTileSessionCookie(request: NextRequest, response: NextResponse, session: TileSession): void {
+    response.cookies.set(TILE_SESSION_COOKIE, session.value, {
+        httpOnly: true,
+        sameSite: 'strict',
+        secure: request.nextUrl.protocol === 'https:',
+        path: '/api/tiles',
+        maxAge: TILE_SESSION_TTL_SECONDS,
+    });
+}
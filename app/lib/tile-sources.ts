@@ -0,0 +1,588 @@
+// Tile source registry - single source of truth for every tile layer we proxy
+// Consumed by the tile proxy route (upstream fetch + cache policy) and by the
+// client style builder (MAP_SOURCES), so adding a source is one declaration.
+
+import type {
+    RasterDEMSourceSpecification,
+    RasterSourceSpecification,
+    VectorSourceSpecification,
+} from 'maplibre-gl';
+import { tileToMercatorBBox } from './tile-math';
+
+/**
+ * Cache lifetime classes - how often the upstream imagery actually changes
+ * - static: terrain/elevation, effectively never changes
+ * - imagery: satellite/aerial photography, refreshed slowly (zoom dependent)
+ * - streets: road networks, update regularly
+ * - labels: place names and boundaries
+ * - themed: styled basemaps with a stable design (dark, voyager)
+ * - specialized: tactical/specialist maps (topo, nautical, MTB)
+ * - default: anything else
+ */
+export type TileTtlClass =
+    | 'static'
+    | 'imagery'
+    | 'streets'
+    | 'labels'
+    | 'themed'
+    | 'specialized'
+    | 'default';
+
+/**
+ * OGC map service behind a source - `url` is then the service endpoint and each tile
+ * request is built from z/x/y (Web Mercator / EPSG:3857 only)
+ * - wms: GetMap for the tile's EPSG:3857 bounding box
+ * - wmts: KVP GetTile on a GoogleMapsCompatible-style matrix set, where the
+ *   TileMatrix identifier is tileMatrixPrefix + z (e.g. "EPSG:3857:12")
+ */
+export type TileServiceDefinition =
+    | {
+        type: 'wms';
+        layers: string;
+        styles?: string;
+        version?: '1.1.1' | '1.3.0';
+        /** Defaults to the source's contentType */
+        format?: string;
+        transparent?: boolean;
+    }
+    | {
+        type: 'wmts';
+        layer: string;
+        tileMatrixSet: string;
+        tileMatrixPrefix?: string;
+        style?: string;
+        format?: string;
+    };
+
+/** How the source is used when building the client map style */
+export type TileSourceRole = 'base' | 'overlay' | 'terrain';
+
+export interface TileSourceDefinition {
+    /**
+     * Primary upstream URL template - supports {s}, {z}, {x} and {y} placeholders
+     * mbtiles://<file> and pmtiles://<file> read a local tile archive instead (see tile-archives.ts)
+     */
+    url: string;
+    /** Additional upstream URL templates, tried in order when the primary fails */
+    mirrors?: readonly string[];
+    /** Values substituted for {s} - rotated per request and retried on failure */
+    subdomains?: readonly string[];
+    /** Source id to serve from when every mirror of this source is down */
+    fallback?: string;
+    /** Set to false where the upstream's usage policy forbids bulk downloads (server seeding, offline packs) */
+    allowSeeding?: boolean;
+    /** Fallback content type when upstream omits the header */
+    contentType: string;
+    /** Upstream fetch timeout in milliseconds */
+    timeout: number;
+    ttlClass: TileTtlClass;
+    minZoom: number;
+    maxZoom: number;
+    attribution: string;
+    /** Coverage as [west, south, east, north] in degrees - omitted for global sources */
+    bounds?: readonly [number, number, number, number];
+    role: TileSourceRole;
+    /** MapLibre source type - vector sources are Mapbox Vector Tiles (served with a .pbf suffix) */
+    type: 'raster' | 'raster-dem' | 'vector';
+    /** DEM encoding (raster-dem only) */
+    encoding?: 'terrarium' | 'mapbox';
+    tileSize?: number;
+    /** WMS/WMTS service parameters - url is the service endpoint */
+    service?: TileServiceDefinition;
+    /** Raster opacity when shown as an overlay (default 1) */
+    opacity?: number;
+    /**
+     * Zoom levels past maxZoom served by upscaling the nearest parent tile (raster only, see tile-overzoom.ts)
+     * Also how far up the proxy looks for a parent when a native tile is missing upstream (imagery gaps).
+     */
+    maxOverzoom?: number;
+}
+
+const DAY = 60 * 60 * 24;
+
+export const TILE_SOURCES = {
+    satellite: {
+        url: 'https://services.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+        mirrors: ['https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}'],
+        contentType: 'image/jpeg',
+        timeout: 15000,
+        ttlClass: 'imagery',
+        minZoom: 0,
+        // Native coverage is patchy past z19 - deeper levels are upscaled from the best available parent
+        maxZoom: 19,
+        maxOverzoom: 3,
+        attribution: 'Esri, Maxar, Earthstar Geographics',
+        role: 'base',
+        type: 'raster',
+    },
+    terrain: {
+        url: 'https://s3.amazonaws.com/elevation-tiles-prod/terrarium/{z}/{x}/{y}.png',
+        mirrors: ['https://elevation-tiles-prod.s3.amazonaws.com/terrarium/{z}/{x}/{y}.png'],
+        contentType: 'image/png',
+        timeout: 10000,
+        ttlClass: 'static',
+        minZoom: 0,
+        maxZoom: 15,
+        attribution: 'Mapzen, AWS Open Data',
+        role: 'terrain',
+        type: 'raster-dem',
+        encoding: 'terrarium',
+    },
+    streets: {
+        url: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+        fallback: 'voyager',
+        allowSeeding: false,
+        contentType: 'image/png',
+        timeout: 10000,
+        ttlClass: 'streets',
+        minZoom: 0,
+        maxZoom: 19,
+        attribution: '© OpenStreetMap contributors',
+        role: 'base',
+        type: 'raster',
+    },
+    topo: {
+        url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Topo_Map/MapServer/tile/{z}/{y}/{x}',
+        mirrors: ['https://services.arcgisonline.com/ArcGIS/rest/services/World_Topo_Map/MapServer/tile/{z}/{y}/{x}'],
+        contentType: 'image/jpeg',
+        timeout: 15000,
+        ttlClass: 'default',
+        minZoom: 0,
+        maxZoom: 20,
+        attribution: 'Esri',
+        role: 'base',
+        type: 'raster',
+    },
+    dark: {
+        url: 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}.png',
+        subdomains: ['a', 'b', 'c', 'd'],
+        contentType: 'image/png',
+        timeout: 10000,
+        ttlClass: 'themed',
+        minZoom: 0,
+        maxZoom: 20,
+        attribution: '© CARTO, © OpenStreetMap contributors',
+        role: 'base',
+        type: 'raster',
+    },
+    voyager: {
+        url: 'https://{s}.basemaps.cartocdn.com/rastertiles/voyager/{z}/{x}/{y}.png',
+        subdomains: ['a', 'b', 'c', 'd'],
+        fallback: 'streets',
+        contentType: 'image/png',
+        timeout: 10000,
+        ttlClass: 'themed',
+        minZoom: 0,
+        maxZoom: 20,
+        attribution: '© CARTO, © OpenStreetMap contributors',
+        role: 'base',
+        type: 'raster',
+    },
+    labels: {
+        // Labels overlay for any base map
+        url: 'https://server.arcgisonline.com/ArcGIS/rest/services/Reference/World_Boundaries_and_Places/MapServer/tile/{z}/{y}/{x}',
+        mirrors: ['https://services.arcgisonline.com/ArcGIS/rest/services/Reference/World_Boundaries_and_Places/MapServer/tile/{z}/{y}/{x}'],
+        contentType: 'image/png',
+        timeout: 15000,
+        ttlClass: 'labels',
+        minZoom: 0,
+        maxZoom: 19,
+        attribution: 'Esri',
+        role: 'overlay',
+        type: 'raster',
+    },
+    // OGC map services - rendered per tile by the upstream server, so allow a generous timeout
+    ga_geology: {
+        url: 'https://services.ga.gov.au/gis/services/GA_Surface_Geology/MapServer/WMSServer',
+        service: { type: 'wms', layers: '0', version: '1.3.0', transparent: true },
+        allowSeeding: false,
+        contentType: 'image/png',
+        timeout: 20000,
+        ttlClass: 'static',
+        minZoom: 4,
+        maxZoom: 14,
+        attribution: '© Geoscience Australia',
+        bounds: [112.9, -43.7, 153.7, -9.1],
+        role: 'overlay',
+        type: 'raster',
+        opacity: 0.6,
+    },
+    nsw_cadastre: {
+        url: 'https://maps.six.nsw.gov.au/arcgis/services/public/NSW_Cadastre/MapServer/WMSServer',
+        service: { type: 'wms', layers: '0', version: '1.3.0', transparent: true },
+        allowSeeding: false,
+        contentType: 'image/png',
+        timeout: 20000,
+        ttlClass: 'specialized',
+        minZoom: 14,
+        maxZoom: 20,
+        attribution: '© Spatial Services NSW',
+        bounds: [140.9, -37.6, 153.7, -28.1],
+        role: 'overlay',
+        type: 'raster',
+    },
+    nsw_topo: {
+        url: 'https://maps.six.nsw.gov.au/arcgis/rest/services/public/NSW_Topo_Map/MapServer/WMTS',
+        service: { type: 'wmts', layer: 'public_NSW_Topo_Map', tileMatrixSet: 'GoogleMapsCompatible', format: 'image/png' },
+        contentType: 'image/png',
+        timeout: 15000,
+        ttlClass: 'specialized',
+        minZoom: 0,
+        maxZoom: 16,
+        attribution: '© Spatial Services NSW',
+        bounds: [140.9, -37.6, 153.7, -28.1],
+        role: 'overlay',
+        type: 'raster',
+        opacity: 0.85,
+    },
+    // Tactical/Specialized Maps
+    opentopo: {
+        url: 'https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png',
+        subdomains: ['a', 'b', 'c'],
+        fallback: 'topo',
+        allowSeeding: false,
+        contentType: 'image/png',
+        timeout: 10000,
+        ttlClass: 'specialized',
+        minZoom: 1,
+        maxZoom: 17,
+        attribution: '© OpenTopoMap contributors',
+        role: 'base',
+        type: 'raster',
+    },
+    cyclosm: {
+        url: 'https://{s}.tile-cyclosm.openstreetmap.fr/cyclosm/{z}/{x}/{y}.png',
+        subdomains: ['a', 'b', 'c'],
+        fallback: 'streets',
+        allowSeeding: false,
+        contentType: 'image/png',
+        timeout: 10000,
+        ttlClass: 'default',
+        minZoom: 0,
+        maxZoom: 20,
+        attribution: '© CyclOSM, © OpenStreetMap contributors',
+        role: 'base',
+        type: 'raster',
+    },
+    usgs_imagery: {
+        url: 'https://basemap.nationalmap.gov/ArcGIS/rest/services/USGSImageryOnly/MapServer/tile/{z}/{y}/{x}',
+        contentType: 'image/jpeg',
+        timeout: 15000,
+        ttlClass: 'imagery',
+        minZoom: 0,
+        maxZoom: 15,
+        attribution: 'USGS',
+        bounds: [-179.2, 17.8, -64.5, 71.6],
+        role: 'base',
+        type: 'raster',
+    },
+    usgs_topo: {
+        url: 'https://basemap.nationalmap.gov/ArcGIS/rest/services/USGSImageryTopo/MapServer/tile/{z}/{y}/{x}',
+        contentType: 'image/jpeg',
+        timeout: 15000,
+        ttlClass: 'specialized',
+        minZoom: 0,
+        maxZoom: 15,
+        attribution: 'USGS',
+        bounds: [-179.2, 17.8, -64.5, 71.6],
+        role: 'base',
+        type: 'raster',
+    },
+    openseamap: {
+        url: 'https://{s}.openseamap.org/tiles/base/{z}/{x}/{y}.png',
+        subdomains: ['t1', 't2', 't3'],
+        contentType: 'image/png',
+        timeout: 10000,
+        ttlClass: 'specialized',
+        minZoom: 0,
+        maxZoom: 18,
+        attribution: '© OpenSeaMap contributors',
+        role: 'base',
+        type: 'raster',
+    },
+    mtbmap: {
+        url: 'http://tile.mtbmap.cz/mtbmap_tiles/{z}/{x}/{y}.png',
+        contentType: 'image/png',
+        timeout: 10000,
+        ttlClass: 'specialized',
+        minZoom: 0,
+        maxZoom: 18,
+        attribution: '© MTBMap.cz',
+        bounds: [-25, 34, 45, 72],
+        role: 'base',
+        type: 'raster',
+    },
+    // Local archive for areas without connectivity - drop field.pmtiles or field.mbtiles into TILE_ARCHIVE_DIR
+    field_archive: {
+        url: 'pmtiles://field.pmtiles',
+        mirrors: ['mbtiles://field.mbtiles'],
+        contentType: 'image/png',
+        timeout: 5000,
+        ttlClass: 'static',
+        minZoom: 0,
+        maxZoom: 20,
+        attribution: 'Local tile archive',
+        role: 'base',
+        type: 'raster',
+    },
+    // Vector basemap (Shortbread schema) - styled client-side, see vector-style.ts
+    osm_vector: {
+        url: 'https://tiles.versatiles.org/tiles/osm/{z}/{x}/{y}',
+        contentType: 'application/x-protobuf',
+        timeout: 10000,
+        ttlClass: 'streets',
+        minZoom: 0,
+        maxZoom: 14,
+        attribution: '© OpenStreetMap contributors, VersaTiles',
+        role: 'base',
+        type: 'vector',
+    },
+} as const satisfies Record<string, TileSourceDefinition>;
+
+export type TileSourceId = keyof typeof TILE_SOURCES;
+
+export const TILE_SOURCE_IDS = Object.keys(TILE_SOURCES) as TileSourceId[];
+
+export function isTileSourceId(id: string): id is TileSourceId {
+    return Object.prototype.hasOwnProperty.call(TILE_SOURCES, id);
+}
+
+export function getTileSource(id: string): TileSourceDefinition | null {
+    return isTileSourceId(id) ? TILE_SOURCES[id] : null;
+}
+
+/** Source ids with the given role (and optionally MapLibre type), in declaration order */
+export function getTileSourcesByRole(
+    role: TileSourceRole,
+    type?: TileSourceDefinition['type']
+): TileSourceId[] {
+    return TILE_SOURCE_IDS.filter((id) => {
+        const source: TileSourceDefinition = TILE_SOURCES[id];
+        return source.role === role && (!type || source.type === type);
+    });
+}
+
+/** Highest zoom the proxy serves for a source - native maxZoom plus overzoomed levels */
+export function getServedMaxZoom(source: TileSourceDefinition): number {
+    return source.maxZoom + (source.type === 'raster' ? source.maxOverzoom ?? 0 : 0);
+}
+
+// Overzoomed tiles are cached under their own name (tile:v1:{source}.overzoom:...), apart from native tiles
+const OVERZOOM_CACHE_SUFFIX = '.overzoom';
+
+/** Cache name for a source's synthesized overzoom tiles */
+export function getOverzoomCacheId(id: TileSourceId): string {
+    return `${id}${OVERZOOM_CACHE_SUFFIX}`;
+}
+
+/** Registry source behind a cache name - the source itself or its overzoom cache */
+export function getCachedTileSource(cacheId: string): TileSourceDefinition | null {
+    return getTileSource(cacheId.endsWith(OVERZOOM_CACHE_SUFFIX) ? cacheId.slice(0, -OVERZOOM_CACHE_SUFFIX.length) : cacheId);
+}
+
+/** File suffix used in proxy URLs - vector tiles are addressed as {y}.pbf */
+export function getTileSuffix(source: TileSourceDefinition): string {
+    return source.type === 'vector' ? '.pbf' : '';
+}
+
+/** Proxy path for a single tile, e.g. /api/tiles/satellite/12/3770/2457 */
+export function getTilePath(id: TileSourceId, z: number | string, x: number | string, y: number | string): string {
+    return `/api/tiles/${id}/${z}/${x}/${y}${getTileSuffix(TILE_SOURCES[id])}`;
+}
+
+/**
+ * Detect gzip-compressed tile payloads (magic bytes 1f 8b)
+ * Vector tiles are commonly stored/served gzipped without a Content-Encoding
+ * header upstream, so the encoding is derived from the bytes themselves.
+ */
+export function detectContentEncoding(data: Uint8Array): 'gzip' | null {
+    return data.length > 2 && data[0] === 0x1f && data[1] === 0x8b ? 'gzip' : null;
+}
+
+/**
+ * Cache TTL in seconds for a source at a zoom level
+ * Higher zoom imagery is more detailed and gets refreshed more often upstream.
+ */
+export function getTileTTL(ttlClass: TileTtlClass, zoom: number): number {
+    switch (ttlClass) {
+        case 'static':
+            return DAY * 180;
+        case 'imagery':
+            if (zoom >= 15) return DAY * 30;
+            if (zoom >= 10) return DAY * 60;
+            return DAY * 90;
+        case 'streets':
+        case 'labels':
+            return DAY * 14;
+        case 'themed':
+        case 'specialized':
+            return DAY * 30;
+        default:
+            return DAY * 7;
+    }
+}
+
+// Browser (service worker) cache budget per source, by role
+const CLIENT_CACHE_BUDGET_BYTES: Record<TileSourceRole, number> = {
+    base: 100 * 1024 * 1024,
+    terrain: 150 * 1024 * 1024,
+    overlay: 50 * 1024 * 1024,
+};
+
+/**
+ * Client-side caching policy for a source, published to the service worker via /api/tiles/sources
+ * ttlByZoom[z] mirrors getTileTTL so browser and Redis expire tiles on the same schedule.
+ */
+export function getClientCachePolicy(id: TileSourceId): {
+    suffix: string;
+    minZoom: number;
+    maxZoom: number;
+    ttlByZoom: number[];
+    budgetBytes: number;
+} {
+    const source: TileSourceDefinition = TILE_SOURCES[id];
+    return {
+        suffix: getTileSuffix(source),
+        minZoom: source.minZoom,
+        maxZoom: getServedMaxZoom(source),
+        ttlByZoom: Array.from({ length: getServedMaxZoom(source) + 1 }, (_, z) => getTileTTL(source.ttlClass, z)),
+        budgetBytes: CLIENT_CACHE_BUDGET_BYTES[source.role],
+    };
+}
+
+/** Local tile archive templates: mbtiles://<file> and pmtiles://<file> */
+export const ARCHIVE_URL_PATTERN = /^(mbtiles|pmtiles):\/\/(.+)$/;
+
+export function isArchiveTemplate(template: string): boolean {
+    return ARCHIVE_URL_PATTERN.test(template);
+}
+
+/**
+ * Whether a source is served entirely from local archives
+ * Such sources bypass Redis - the archive on disk already is the cache.
+ */
+export function isArchiveSource(source: TileSourceDefinition): boolean {
+    return [source.url, ...(source.mirrors ?? [])].every(isArchiveTemplate);
+}
+
+/** Encode a query value, leaving {placeholders} for fillTileTemplate */
+function encodeTemplateValue(value: string): string {
+    return value
+        .split(/(\{[a-z0-9-]+\})/)
+        .map((part) => (/^\{[a-z0-9-]+\}$/.test(part) ? part : encodeURIComponent(part)))
+        .join('');
+}
+
+/**
+ * Turn a WMS/WMTS service endpoint into a tile URL template
+ * Plain XYZ sources (and WMTS REST templates, which are XYZ with {z}/{y}/{x}) pass through unchanged.
+ */
+function getServiceTemplate(source: TileSourceDefinition, endpoint: string): string {
+    const { service } = source;
+    if (!service || isArchiveTemplate(endpoint)) {
+        return endpoint;
+    }
+
+    const size = String(source.tileSize ?? 256);
+    const format = service.format ?? source.contentType;
+    let params: Record<string, string>;
+
+    if (service.type === 'wms') {
+        const version = service.version ?? '1.3.0';
+        params = {
+            SERVICE: 'WMS',
+            REQUEST: 'GetMap',
+            VERSION: version,
+            LAYERS: service.layers,
+            STYLES: service.styles ?? '',
+            // 1.3.0 renamed SRS to CRS; EPSG:3857 is x/y axis order in both
+            [version === '1.3.0' ? 'CRS' : 'SRS']: 'EPSG:3857',
+            BBOX: '{bbox-epsg-3857}',
+            WIDTH: size,
+            HEIGHT: size,
+            FORMAT: format,
+            TRANSPARENT: service.transparent === false ? 'FALSE' : 'TRUE',
+        };
+    } else {
+        params = {
+            SERVICE: 'WMTS',
+            REQUEST: 'GetTile',
+            VERSION: '1.0.0',
+            LAYER: service.layer,
+            STYLE: service.style ?? 'default',
+            TILEMATRIXSET: service.tileMatrixSet,
+            TILEMATRIX: `${service.tileMatrixPrefix ?? ''}{z}`,
+            TILEROW: '{y}',
+            TILECOL: '{x}',
+            FORMAT: format,
+        };
+    }
+
+    const query = Object.entries(params)
+        .map(([key, value]) => `${key}=${encodeTemplateValue(value)}`)
+        .join('&');
+    return `${endpoint}${endpoint.includes('?') ? '&' : '?'}${query}`;
+}
+
+/**
+ * Ordered upstream URL templates for a source
+ * Primary url first, then mirrors; templates with {s} expand to one entry per subdomain,
+ * starting at `rotation` so load is spread across subdomains between requests.
+ * WMS/WMTS endpoints are expanded into GetMap/GetTile templates.
+ */
+export function getUpstreamTemplates(source: TileSourceDefinition, rotation: number = 0): string[] {
+    const subdomains = source.subdomains ?? [];
+    const templates = [source.url, ...(source.mirrors ?? [])].map((template) => getServiceTemplate(source, template));
+
+    return templates.flatMap((template) => {
+        if (!template.includes('{s}') || subdomains.length === 0) {
+            return [template.replace('{s}', '')];
+        }
+
+        return subdomains.map((_, i) => {
+            const subdomain = subdomains[(i + rotation) % subdomains.length];
+            return template.replace('{s}', subdomain);
+        });
+    });
+}
+
+/** Substitute tile coordinates into an upstream URL template */
+export function fillTileTemplate(template: string, z: number, x: number, y: number): string {
+    const filled = template
+        .replace('{z}', String(z))
+        .replace('{x}', String(x))
+        .replace('{y}', String(y));
+
+    return filled.includes('{bbox-epsg-3857}')
+        ? filled.replace('{bbox-epsg-3857}', tileToMercatorBBox(z, x, y).join(','))
+        : filled;
+}
+
+/**
+ * Build the MapLibre source specification that points at our tile proxy
+ */
+export function buildStyleSource(
+    id: TileSourceId,
+    proxyBase: string = ''
+): RasterSourceSpecification | RasterDEMSourceSpecification | VectorSourceSpecification {
+    const source: TileSourceDefinition = TILE_SOURCES[id];
+    const common = {
+        tiles: [`${proxyBase}${getTilePath(id, '{z}', '{x}', '{y}')}`],
+        minzoom: source.minZoom,
+        maxzoom: getServedMaxZoom(source),
+        attribution: source.attribution,
+        ...(source.bounds ? { bounds: [...source.bounds] as [number, number, number, number] } : {}),
+    };
+
+    if (source.type === 'vector') {
+        return { type: 'vector', ...common };
+    }
+
+    if (source.type === 'raster-dem') {
+        return { type: 'raster-dem', encoding: source.encoding ?? 'terrarium', tileSize: source.tileSize ?? 256, ...common };
+    }
+
+    return { type: 'raster', tileSize: source.tileSize ?? 256, ...common };
+}
+
+
@@ -0,0 +1,448 @@
+// Upstream tile fetching with request coalescing and mirror failover
+// Concurrent cache misses for the same source/z/x/y share a single upstream request:
+// - per process via an in-flight promise map
+// - across instances via a short Redis lock (followers wait for the leader to fill the cache)
+// This keeps us inside upstream rate limits (OSM tile usage policy in particular).
+// Each source's mirrors are tried in order (skipping ones with an open circuit), and a
+// declared fallback source serves the tile when every mirror is down.
+// Stale cached tiles are revalidated in the background with conditional requests.
+// Templates pointing at local MBTiles/PMTiles archives are read from disk like any other mirror.
+
+import { TileMetrics } from './metrics';
+import { CachedTile, TileCache, UpstreamValidators } from './redis';
+import { readArchiveTile } from './tile-archives';
+import { UpstreamHealth } from './tile-health';
+import {
+    TILE_SOURCES,
+    TileSourceDefinition,
+    TileSourceId,
+    fillTileTemplate,
+    getUpstreamTemplates,
+    isArchiveTemplate,
+    isTileSourceId,
+} from './tile-sources';
+
+/**
+ * Result of fetching a tile
+ * `source` is the source that actually served the tile (differs when a fallback was used)
+ * and `upstream` is the mirror host it came from (null when picked up from Redis).
+ * etag/lastModified are the upstream's validators, kept for later revalidation.
+ * A conditional request that the upstream answers with 304 comes back as `{ ok: false, status: 304 }`.
+ */
+export type UpstreamTileResult =
+    | {
+        ok: true;
+        data: Buffer;
+        contentType: string;
+        etag: string | null;
+        lastModified: string | null;
+        source: TileSourceId;
+        upstream: string | null;
+    }
+    | { ok: false; status: number; message: string };
+
+/**
+ * How the tile was obtained
+ * - upstream: this request performed the upstream fetch
+ * - coalesced: joined an in-flight fetch in this process
+ * - peer: another instance fetched it and we picked it up from Redis
+ */
+export type TileFetchOrigin = 'upstream' | 'coalesced' | 'peer';
+
+const USER_AGENT = 'AUS.MAPPING/1.0 (Tile Cache Proxy)';
+
+// How often followers re-check Redis while another instance holds the fetch lock
+const LOCK_POLL_INTERVAL_MS = 100;
+
+const inFlight = new Map<string, Promise<UpstreamTileResult>>();
+// Stale tiles with a background revalidation running in this process
+const revalidating = new Set<string>();
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Round-robin counter so subdomain mirrors share load between requests
+let rotation = 0;
+
+/** Mirror identity for health tracking - the upstream host */
+function getMirrorHost(template: string): string {
+    try {
+        return new URL(fillTileTemplate(template, 0, 0, 0)).host;
+    } catch {
+        return template;
+    }
+}
+
+/** 404s and other client errors mean the tile doesn't exist - another mirror won't help */
+function isRetryableStatus(status: number): boolean {
+    return status >= 500 || status === 429;
+}
+
+/**
+ * Fetch a tile from one upstream URL
+ * With validators the request is conditional and a 304 is passed back as-is.
+ */
+async function fetchFromMirror(
+    sourceConfig: TileSourceDefinition,
+    upstreamUrl: string,
+    tileRef: string,
+    validators?: UpstreamValidators
+): Promise<
+    | { ok: true; data: Buffer; contentType: string; etag: string | null; lastModified: string | null }
+    | { ok: false; status: number; message: string }
+> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), sourceConfig.timeout);
+
+    try {
+        const upstreamResponse = await fetch(upstreamUrl, {
+            signal: controller.signal,
+            headers: {
+                'User-Agent': USER_AGENT,
+                ...(validators?.etag ? { 'If-None-Match': validators.etag } : {}),
+                ...(validators?.lastModified ? { 'If-Modified-Since': validators.lastModified } : {}),
+            },
+        });
+
+        if (upstreamResponse.status === 304) {
+            return { ok: false, status: 304, message: 'Not modified' };
+        }
+
+        if (!upstreamResponse.ok) {
+            console.error(`[TileCache] Upstream error ${upstreamResponse.status} for ${tileRef} (${upstreamUrl})`);
+            return { ok: false, status: upstreamResponse.status, message: 'Tile not found' };
+        }
+
+        const data = Buffer.from(await upstreamResponse.arrayBuffer());
+        // Vector upstreams often label MVT as octet-stream - trust the registry for those
+        const contentType = sourceConfig.type === 'vector'
+            ? sourceConfig.contentType
+            : upstreamResponse.headers.get('content-type') || sourceConfig.contentType;
+
+        // WMS/WMTS servers report errors (bad layer, out-of-range matrix) as a 200 XML document
+        if (sourceConfig.service && contentType.includes('xml')) {
+            console.error(`[TileCache] Map service exception for ${tileRef} (${upstreamUrl}): ${data.toString('utf8', 0, 200)}`);
+            return { ok: false, status: 502, message: 'Map service exception' };
+        }
+
+        return {
+            ok: true,
+            data,
+            contentType,
+            etag: upstreamResponse.headers.get('etag'),
+            lastModified: upstreamResponse.headers.get('last-modified'),
+        };
+    } catch (fetchError) {
+        if (fetchError instanceof Error && fetchError.name === 'AbortError') {
+            console.error(`[TileCache] Timeout fetching ${tileRef} (${upstreamUrl})`);
+            return { ok: false, status: 504, message: 'Tile request timeout' };
+        }
+
+        console.error(`[TileCache] Fetch error for ${tileRef} (${upstreamUrl}):`, fetchError);
+        return { ok: false, status: 502, message: 'Failed to fetch tile' };
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
+
+/**
+ * Fetch a single tile from its upstream servers (no caching, no coalescing)
+ * Tries each healthy mirror in order and fails over on 5xx, timeouts and network errors.
+ * Pass validators to make the request conditional.
+ */
+export async function fetchUpstreamTile(
+    source: TileSourceId,
+    z: number,
+    x: number,
+    y: number,
+    validators?: UpstreamValidators
+): Promise<UpstreamTileResult> {
+    const sourceConfig: TileSourceDefinition = TILE_SOURCES[source];
+    const tileRef = `${source}/${z}/${x}/${y}`;
+    const templates = getUpstreamTemplates(sourceConfig, rotation++);
+
+    let lastFailure = { status: 503, message: 'All upstream mirrors unavailable' };
+    // An archive that answered "not found" outranks later mirrors that couldn't answer at all
+    // (e.g. a tile outside field.pmtiles stays a 404 when the .mbtiles mirror isn't installed)
+    const recordFailure = (failure: { status: number; message: string }) => {
+        if (lastFailure.status !== 404) lastFailure = failure;
+    };
+
+    for (const template of templates) {
+        // Local archives: no health tracking, and a tile outside the archive falls through to the next mirror
+        if (isArchiveTemplate(template)) {
+            const result = await readArchiveTile(template, z, x, y);
+            if (result.ok) {
+                return {
+                    ok: true,
+                    data: result.data,
+                    contentType: sourceConfig.type === 'vector' ? sourceConfig.contentType : result.contentType ?? sourceConfig.contentType,
+                    etag: null,
+                    lastModified: result.lastModified,
+                    source,
+                    upstream: template,
+                };
+            }
+            recordFailure(result);
+            continue;
+        }
+
+        const mirror = getMirrorHost(template);
+        if (!UpstreamHealth.isAvailable(mirror)) {
+            continue;
+        }
+
+        const fetchStart = Date.now();
+        const result = await fetchFromMirror(sourceConfig, fillTileTemplate(template, z, x, y), tileRef, validators);
+        TileMetrics.recordUpstream(source, mirror, result.ok ? 200 : result.status, Date.now() - fetchStart);
+
+        if (result.ok) {
+            UpstreamHealth.recordSuccess(mirror);
+            return { ...result, source, upstream: mirror };
+        }
+
+        if (!isRetryableStatus(result.status)) {
+            // The mirror answered - it's healthy, the tile just doesn't exist
+            UpstreamHealth.recordSuccess(mirror);
+            return result;
+        }
+
+        UpstreamHealth.recordFailure(mirror, `${result.status} ${result.message}`);
+        recordFailure(result);
+    }
+
+    return { ok: false, ...lastFailure };
+}
+
+/** Tile fields of a result picked up from Redis */
+function fromCache(cached: CachedTile) {
+    return {
+        data: cached.data,
+        contentType: cached.contentType,
+        etag: cached.upstreamEtag,
+        lastModified: cached.lastModified,
+    };
+}
+
+/**
+ * Options for fetchTileCoalesced
+ * seeding: the fetch is part of a bulk download, so fallbacks that forbid bulk downloads are not used
+ */
+export interface TileFetchOptions {
+    seeding?: boolean;
+}
+
+/**
+ * Serve a tile from the source's fallback when every mirror of the source is down
+ * Checks the fallback's Redis cache before going upstream.
+ */
+async function fetchFallbackTile(
+    source: TileSourceId,
+    z: number,
+    x: number,
+    y: number,
+    options: TileFetchOptions
+): Promise<UpstreamTileResult | null> {
+    const fallback = (TILE_SOURCES[source] as TileSourceDefinition).fallback;
+    if (!fallback || !isTileSourceId(fallback)) {
+        return null;
+    }
+
+    const fallbackConfig: TileSourceDefinition = TILE_SOURCES[fallback];
+    if (z < fallbackConfig.minZoom || z > fallbackConfig.maxZoom) {
+        return null;
+    }
+    if (options.seeding && fallbackConfig.allowSeeding === false) {
+        return null;
+    }
+
+    console.warn(`[TileCache] FALLBACK ${source}/${z}/${x}/${y} -> ${fallback}`);
+
+    try {
+        const cached = await TileCache.get(fallback, z, x, y);
+        if (cached) {
+            return { ok: true, ...fromCache(cached), source: fallback, upstream: null };
+        }
+    } catch (redisError) {
+        console.error(`[TileCache] Redis error for fallback ${fallback}/${z}/${x}/${y}:`, redisError);
+        TileMetrics.recordRedisError('get');
+    }
+
+    return fetchUpstreamTile(fallback, z, x, y);
+}
+
+/**
+ * Fetch a tile upstream and store it in Redis
+ * Holds the cross-instance fetch lock (when acquired) until the tile is cached.
+ */
+async function fetchAndStore(
+    source: TileSourceId,
+    z: number,
+    x: number,
+    y: number,
+    lockToken: string | null,
+    options: TileFetchOptions
+): Promise<UpstreamTileResult> {
+    const tileRef = `${source}/${z}/${x}/${y}`;
+    let result = await fetchUpstreamTile(source, z, x, y);
+
+    if (!result.ok && isRetryableStatus(result.status)) {
+        result = (await fetchFallbackTile(source, z, x, y, options)) ?? result;
+    }
+
+    // Store in Redis asynchronously (don't block response), then release the lock
+    // Fallback tiles are cached under their own source so the primary recovers on its own
+    const store = result.ok && result.upstream
+        ? TileCache.set(result.source, z, x, y, result.data, result.contentType, {
+            etag: result.etag,
+            lastModified: result.lastModified,
+        })
+        : Promise.resolve();
+
+    store
+        .catch((err) => {
+            console.error(`[TileCache] Failed to cache ${tileRef}:`, err);
+            TileMetrics.recordRedisError('set');
+        })
+        .finally(() => {
+            if (lockToken) {
+                TileCache.releaseFetchLock(source, z, x, y, lockToken).catch((err) => {
+                    console.error(`[TileCache] Failed to release fetch lock for ${tileRef}:`, err);
+                    TileMetrics.recordRedisError('lock');
+                });
+            }
+        });
+
+    return result;
+}
+
+/**
+ * Wait for the instance holding the fetch lock to populate the cache
+ * Returns null if the lock disappears without a cached tile or the wait times out.
+ */
+async function waitForPeer(
+    source: TileSourceId,
+    z: number,
+    x: number,
+    y: number,
+    timeoutMs: number
+): Promise<UpstreamTileResult | null> {
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline) {
+        await sleep(LOCK_POLL_INTERVAL_MS);
+
+        const cached = await TileCache.get(source, z, x, y);
+        if (cached) {
+            return { ok: true, ...fromCache(cached), source, upstream: null };
+        }
+
+        if (!(await TileCache.isFetchLocked(source, z, x, y))) {
+            return null;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Fetch a missing tile, sharing the upstream request with any concurrent misses
+ */
+export async function fetchTileCoalesced(
+    source: TileSourceId,
+    z: number,
+    x: number,
+    y: number,
+    options: TileFetchOptions = {}
+): Promise<{ result: UpstreamTileResult; origin: TileFetchOrigin }> {
+    const key = TileCache.getKey(source, z, x, y);
+
+    const pending = inFlight.get(key);
+    if (pending) {
+        return { result: await pending, origin: 'coalesced' };
+    }
+
+    let origin: TileFetchOrigin = 'upstream';
+    const timeout = TILE_SOURCES[source].timeout;
+
+    const request = (async (): Promise<UpstreamTileResult> => {
+        let lockToken: string | null = null;
+
+        try {
+            // Lock outlives the upstream timeout so a slow leader isn't duplicated
+            lockToken = await TileCache.acquireFetchLock(source, z, x, y, timeout + 2000);
+
+            if (!lockToken) {
+                const peerResult = await waitForPeer(source, z, x, y, timeout);
+                if (peerResult) {
+                    origin = 'peer';
+                    return peerResult;
+                }
+            }
+        } catch (redisError) {
+            // Redis failure should not break tile serving - fetch without the lock
+            console.error(`[TileCache] Redis lock error for ${source}/${z}/${x}/${y}:`, redisError);
+            TileMetrics.recordRedisError('lock');
+        }
+
+        return fetchAndStore(source, z, x, y, lockToken, options);
+    })();
+
+    inFlight.set(key, request);
+
+    try {
+        return { result: await request, origin };
+    } finally {
+        inFlight.delete(key);
+    }
+}
+
+/**
+ * Revalidate a stale cached tile in the background
+ * Sends the stored validators upstream: a 304 refreshes the cached entry's expiry, a 200
+ * replaces it. Failures leave the stale tile in place. Only one instance revalidates a
+ * tile at a time (shares the fetch lock with cache misses).
+ */
+export function revalidateTile(source: TileSourceId, z: number, x: number, y: number, cached: CachedTile): void {
+    const key = TileCache.getKey(source, z, x, y);
+    const tileRef = `${source}/${z}/${x}/${y}`;
+
+    if (revalidating.has(key) || inFlight.has(key)) {
+        return;
+    }
+    revalidating.add(key);
+
+    (async () => {
+        const lockToken = await TileCache.acquireFetchLock(source, z, x, y, TILE_SOURCES[source].timeout + 2000);
+        if (!lockToken) {
+            return;
+        }
+
+        try {
+            const result = await fetchUpstreamTile(source, z, x, y, {
+                etag: cached.upstreamEtag,
+                lastModified: cached.lastModified,
+            });
+
+            if (result.ok) {
+                await TileCache.set(source, z, x, y, result.data, result.contentType, {
+                    etag: result.etag,
+                    lastModified: result.lastModified,
+                });
+                console.log(`[TileCache] REFRESHED ${tileRef} via ${result.upstream}`);
+            } else if (result.status === 304) {
+                await TileCache.touch(source, z, x, y);
+                console.log(`[TileCache] REVALIDATED ${tileRef} (304)`);
+            } else {
+                console.warn(`[TileCache] Revalidation failed for ${tileRef}: ${result.status} ${result.message}`);
+            }
+        } finally {
+            await TileCache.releaseFetchLock(source, z, x, y, lockToken);
+        }
+    })()
+        .catch((err) => {
+            console.error(`[TileCache] Revalidation error for ${tileRef}:`, err);
+        })
+        .finally(() => {
+            revalidating.delete(key);
+        });
+}
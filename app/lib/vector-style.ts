@@ -0,0 +1,171 @@
+// Vector basemap style builder
+// Builds MapLibre layers for Shortbread-schema vector tiles (roads, water, land use, labels)
+// so the basemap can be styled here instead of relying on pre-rendered raster tiles.
+
+import type { ExpressionSpecification, LayerSpecification } from 'maplibre-gl';
+
+const FONT_REGULAR = ['Open Sans Regular'];
+const FONT_BOLD = ['Open Sans Bold'];
+
+// Road classes in drawing order (minor first so major roads render on top)
+const ROAD_CLASSES = [
+    { id: 'minor', kinds: ['residential', 'unclassified', 'living_street', 'service'], color: '#ffffff', minzoom: 12, width: [12, 0.5, 18, 10] },
+    { id: 'tertiary', kinds: ['tertiary'], color: '#fff6d5', minzoom: 10, width: [10, 0.6, 18, 14] },
+    { id: 'secondary', kinds: ['secondary'], color: '#fde68a', minzoom: 8, width: [8, 0.6, 18, 16] },
+    { id: 'primary', kinds: ['primary', 'trunk'], color: '#fdba74', minzoom: 6, width: [6, 0.6, 18, 18] },
+    { id: 'motorway', kinds: ['motorway'], color: '#f87171', minzoom: 5, width: [5, 0.8, 18, 20] },
+] as const;
+
+/**
+ * Build the layer stack for a vector basemap source
+ * All layer ids are prefixed with the source id so visibility can be toggled as a group.
+ */
+export function buildVectorLayers(sourceId: string, visible: boolean = false): LayerSpecification[] {
+    const source = `${sourceId}-source`;
+    const visibility = visible ? 'visible' : 'none';
+
+    const roadLayers: LayerSpecification[] = ROAD_CLASSES.flatMap((road): LayerSpecification[] => {
+        const filter: ExpressionSpecification = ['in', ['get', 'kind'], ['literal', [...road.kinds]]];
+        const [z1, w1, z2, w2] = road.width;
+
+        return [
+            {
+                id: `${sourceId}-road-${road.id}-casing`,
+                type: 'line',
+                source,
+                'source-layer': 'streets',
+                minzoom: road.minzoom,
+                filter,
+                layout: { visibility, 'line-cap': 'round', 'line-join': 'round' },
+                paint: {
+                    'line-color': '#94a3b8',
+                    'line-width': ['interpolate', ['exponential', 1.5], ['zoom'], z1, w1 + 0.5, z2, w2 + 2],
+                },
+            },
+            {
+                id: `${sourceId}-road-${road.id}`,
+                type: 'line',
+                source,
+                'source-layer': 'streets',
+                minzoom: road.minzoom,
+                filter,
+                layout: { visibility, 'line-cap': 'round', 'line-join': 'round' },
+                paint: {
+                    'line-color': road.color,
+                    'line-width': ['interpolate', ['exponential', 1.5], ['zoom'], z1, w1, z2, w2],
+                },
+            },
+        ];
+    });
+
+    return [
+        {
+            id: `${sourceId}-background`,
+            type: 'background',
+            layout: { visibility },
+            paint: { 'background-color': '#f2efe9' },
+        },
+        {
+            id: `${sourceId}-ocean`,
+            type: 'fill',
+            source,
+            'source-layer': 'ocean',
+            layout: { visibility },
+            paint: { 'fill-color': '#a5c8e4' },
+        },
+        {
+            id: `${sourceId}-landuse`,
+            type: 'fill',
+            source,
+            'source-layer': 'land',
+            filter: ['in', ['get', 'kind'], ['literal', ['forest', 'wood', 'park', 'grass', 'meadow', 'nature_reserve', 'scrub']]],
+            layout: { visibility },
+            paint: { 'fill-color': '#cde6c4', 'fill-opacity': 0.8 },
+        },
+        {
+            id: `${sourceId}-water`,
+            type: 'fill',
+            source,
+            'source-layer': 'water_polygons',
+            layout: { visibility },
+            paint: { 'fill-color': '#a5c8e4' },
+        },
+        {
+            id: `${sourceId}-waterways`,
+            type: 'line',
+            source,
+            'source-layer': 'water_lines',
+            minzoom: 9,
+            layout: { visibility },
+            paint: {
+                'line-color': '#a5c8e4',
+                'line-width': ['interpolate', ['linear'], ['zoom'], 9, 0.5, 16, 4],
+            },
+        },
+        {
+            id: `${sourceId}-buildings`,
+            type: 'fill',
+            source,
+            'source-layer': 'buildings',
+            minzoom: 14,
+            layout: { visibility },
+            paint: { 'fill-color': '#d9d0c9', 'fill-outline-color': '#c4b8ad' },
+        },
+        {
+            id: `${sourceId}-boundaries`,
+            type: 'line',
+            source,
+            'source-layer': 'boundaries',
+            filter: ['<=', ['get', 'admin_level'], 4],
+            layout: { visibility },
+            paint: {
+                'line-color': '#8b5cf6',
+                'line-width': ['interpolate', ['linear'], ['zoom'], 2, 0.5, 10, 2],
+                'line-dasharray': [3, 2],
+            },
+        },
+        ...roadLayers,
+        {
+            id: `${sourceId}-street-labels`,
+            type: 'symbol',
+            source,
+            'source-layer': 'street_labels',
+            minzoom: 13,
+            layout: {
+                visibility,
+                'symbol-placement': 'line',
+                'text-field': ['coalesce', ['get', 'name_en'], ['get', 'name']],
+                'text-font': FONT_REGULAR,
+                'text-size': ['interpolate', ['linear'], ['zoom'], 13, 10, 18, 14],
+            },
+            paint: {
+                'text-color': '#334155',
+                'text-halo-color': '#ffffff',
+                'text-halo-width': 1.5,
+            },
+        },
+        {
+            id: `${sourceId}-place-labels`,
+            type: 'symbol',
+            source,
+            'source-layer': 'place_labels',
+            layout: {
+                visibility,
+                'text-field': ['coalesce', ['get', 'name_en'], ['get', 'name']],
+                'text-font': FONT_BOLD,
+                'text-size': [
+                    'match', ['get', 'kind'],
+                    'city', 16,
+                    'town', 13,
+                    11,
+                ],
+                'symbol-sort-key': ['-', ['coalesce', ['get', 'population'], 0]],
+            },
+            paint: {
+                'text-color': '#0f172a',
+                'text-halo-color': '#ffffff',
+                'text-halo-width': 1.5,
+            },
+        },
+    ];
+}
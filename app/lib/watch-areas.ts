@@ -0,0 +1,194 @@
+// Watch areas - named regions scanned for Waze alerts on a schedule, so the history database fills
+// even when nobody has the map open. runDueWatchAreaScans() scans each enabled area whose interval has
+// elapsed, most overdue first and one at a time, and stops once the day's request budget (scan-quota.ts)
+// is spent - a large area's scan may take several requests, but never more than the budget has left.
+// Runs are started by the in-process scheduler (WATCH_AREA_SCHEDULER=1, see instrumentation.ts) or by a
+// cron calling GET /api/watch-areas/run; a Redis lock keeps them from overlapping across instances.
+
+import { and, asc, eq, isNull, lte, or, sql } from 'drizzle-orm';
+import { db } from './db';
+import { getRedisClient } from './redis';
+import { ScanQuota, ScanQuotaUsage } from './scan-quota';
+import { watchAreas } from './schema';
+import type { LngLatBBox } from './tile-math';
+import { ScanPolygon, polygonBounds, scanWazeArea } from './waze-scan';
+
+export const MIN_SCAN_INTERVAL_MINUTES = 5;
+export const DEFAULT_SCAN_INTERVAL_MINUTES = 15;
+
+// How often the in-process scheduler looks for due areas
+const SCHEDULER_TICK_MS = 60 * 1000;
+
+const RUN_LOCK_KEY = 'waze:scheduler:lock';
+// Longer than any run should take; a crashed run's lock expires on its own
+const RUN_LOCK_TTL_MS = 10 * 60 * 1000;
+
+export type WatchArea = typeof watchAreas.$inferSelect;
+
+export interface WatchAreaInput {
+    name: string;
+    /** Either a bbox or a polygon */
+    bbox?: LngLatBBox;
+    polygon?: ScanPolygon;
+    intervalMinutes?: number;
+    enabled?: boolean;
+}
+
+export interface WatchAreaRunSummary {
+    /** Another instance was already running the scheduler */
+    locked: boolean;
+    due: number;
+    scanned: number;
+    failed: number;
+    /** Due areas left for the next run because the budget ran out */
+    deferred: number;
+    quota: ScanQuotaUsage | null;
+}
+
+export async function listWatchAreas(): Promise<WatchArea[]> {
+    return db.select().from(watchAreas).orderBy(asc(watchAreas.name));
+}
+
+export async function createWatchArea(input: WatchAreaInput): Promise<WatchArea> {
+    const bbox = input.polygon ? polygonBounds(input.polygon) : input.bbox;
+    if (!bbox) {
+        throw new Error('A watch area needs a bbox or a polygon');
+    }
+
+    const [area] = await db.insert(watchAreas)
+        .values({
+            name: input.name,
+            west: bbox.w,
+            south: bbox.s,
+            east: bbox.e,
+            north: bbox.n,
+            polygon: input.polygon ?? null,
+            intervalMinutes: input.intervalMinutes ?? DEFAULT_SCAN_INTERVAL_MINUTES,
+            enabled: input.enabled ?? true,
+        })
+        .returning();
+    return area;
+}
+
+/** Returns false when no area has that id */
+export async function deleteWatchArea(id: number): Promise<boolean> {
+    const deleted = await db.delete(watchAreas).where(eq(watchAreas.id, id)).returning({ id: watchAreas.id });
+    return deleted.length > 0;
+}
+
+/** Enabled areas whose interval has elapsed, never-scanned and most overdue first */
+async function getDueWatchAreas(): Promise<WatchArea[]> {
+    return db.select()
+        .from(watchAreas)
+        .where(and(
+            eq(watchAreas.enabled, true),
+            or(
+                isNull(watchAreas.lastScannedAt),
+                lte(watchAreas.lastScannedAt, sql`now() - ${watchAreas.intervalMinutes} * interval '1 minute'`),
+            ),
+        ))
+        .orderBy(sql`${watchAreas.lastScannedAt} asc nulls first`);
+}
+
+async function scanWatchArea(area: WatchArea, maxRequests: number): Promise<boolean> {
+    let error: string | null = null;
+
+    try {
+        const result = await scanWazeArea({
+            bbox: { w: area.west, s: area.south, e: area.east, n: area.north },
+            polygon: area.polygon,
+        }, { maxRequests });
+        if (result.ok) {
+            console.log(
+                `[WatchAreas] Scanned "${area.name}" in ${result.requests} requests: ${result.counts.alerts} alerts, ${result.counts.jams} jams${result.truncated ? ' (truncated)' : ''}`
+            );
+        } else {
+            error = `${result.message} (${result.status})`;
+        }
+    } catch (scanError) {
+        error = scanError instanceof Error ? scanError.message : String(scanError);
+    }
+
+    if (error) {
+        console.error(`[WatchAreas] Scan of "${area.name}" failed: ${error}`);
+    }
+
+    // Failed scans also wait a full interval, so a broken area can't eat the budget
+    await db.update(watchAreas)
+        .set({ lastScannedAt: sql`now()`, lastScanError: error })
+        .where(eq(watchAreas.id, area.id));
+
+    return error === null;
+}
+
+/**
+ * Scan every watch area that is due, within today's request budget
+ * Needs Redis for the run lock and the budget - without it nothing is scanned.
+ */
+export async function runDueWatchAreaScans(): Promise<WatchAreaRunSummary> {
+    const summary: WatchAreaRunSummary = { locked: false, due: 0, scanned: 0, failed: 0, deferred: 0, quota: null };
+    const redis = getRedisClient();
+    const token = `${process.pid}:${Date.now()}:${Math.random().toString(36).slice(2)}`;
+
+    if ((await redis.set(RUN_LOCK_KEY, token, 'PX', RUN_LOCK_TTL_MS, 'NX')) !== 'OK') {
+        return { ...summary, locked: true };
+    }
+
+    try {
+        const due = await getDueWatchAreas();
+        summary.due = due.length;
+
+        for (const [i, area] of due.entries()) {
+            summary.quota = await ScanQuota.getUsage();
+            if (summary.quota.remaining <= 0) {
+                summary.deferred = due.length - i;
+                console.warn(
+                    `[WatchAreas] Daily request budget spent (${summary.quota.used}/${summary.quota.budget}) - deferring ${summary.deferred} areas`
+                );
+                break;
+            }
+
+            if (await scanWatchArea(area, summary.quota.remaining)) {
+                summary.scanned++;
+            } else {
+                summary.failed++;
+            }
+        }
+
+        summary.quota = await ScanQuota.getUsage();
+        return summary;
+    } finally {
+        await redis.eval(
+            "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end",
+            1,
+            RUN_LOCK_KEY,
+            token
+        );
+    }
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+/** Check for due watch areas every minute in this process (idempotent) */
+export function startWatchAreaScheduler(): void {
+    if (schedulerTimer) return;
+
+    const tick = () => {
+        runDueWatchAreaScans()
+            .then((summary) => {
+                if (summary.scanned > 0 || summary.failed > 0) {
+                    console.log(`[WatchAreas] Run finished: ${summary.scanned} scanned, ${summary.failed} failed, ${summary.deferred} deferred`);
+                }
+            })
+            .catch((error) => {
+                console.error('[WatchAreas] Scheduled run failed:', error);
+            });
+    };
+
+    schedulerTimer = setInterval(tick, SCHEDULER_TICK_MS);
+    // Don't keep the process alive just for the scheduler
+    schedulerTimer.unref();
+    tick();
+
+    console.log('[WatchAreas] Scheduler started');
+}
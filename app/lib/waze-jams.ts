@@ -0,0 +1,109 @@
+// Waze traffic jams from the OpenWebNinja alerts-and-jams API
+// A jam is the polyline of the congested stretch plus its congestion level (0 free flow - 5 standstill/closed),
+// current speed, length and the delay it adds. Field names differ between API versions (snake_case with
+// line_coordinates, or the raw Waze feed's line/speedKMH/delay), so both are accepted.
+
+export type JamLine = [number, number][];
+
+export interface WazeJam {
+    jamId: string;
+    /** Congestion level, 0 (free flow) to 5 (standstill or road closed) */
+    level: number;
+    speedKmh: number | null;
+    lengthMeters: number | null;
+    /** Seconds added compared to free flow; -1 when the road is closed */
+    delaySeconds: number | null;
+    street: string | null;
+    city: string | null;
+    /** [lng, lat] vertices along the jammed road, in driving direction */
+    line: JamLine;
+    publishedAt: string | null;
+}
+
+type RawJam = Record<string, unknown>;
+
+const MAX_JAM_LEVEL = 5;
+
+function toNumber(value: unknown): number | null {
+    if (value === null || value === undefined || value === '') return null;
+    const number = Number(value);
+    return Number.isFinite(number) ? number : null;
+}
+
+function toText(value: unknown): string | null {
+    return typeof value === 'string' && value.trim().length > 0 ? value.trim() : null;
+}
+
+/** [lng, lat] from {lon, lat} / {lng, lat} / {x, y} objects or [lng, lat] arrays */
+function parseJamPoint(point: unknown): [number, number] | null {
+    let lng: number | null = null;
+    let lat: number | null = null;
+
+    if (Array.isArray(point)) {
+        lng = toNumber(point[0]);
+        lat = toNumber(point[1]);
+    } else if (point && typeof point === 'object') {
+        const p = point as RawJam;
+        lng = toNumber(p.lon ?? p.lng ?? p.longitude ?? p.x);
+        lat = toNumber(p.lat ?? p.latitude ?? p.y);
+    }
+
+    if (lng === null || lat === null || Math.abs(lng) > 180 || Math.abs(lat) > 90) return null;
+    return [lng, lat];
+}
+
+/** Jam polyline, falling back to a one-point line at its start when the API omits the geometry */
+function parseJamLine(jam: RawJam): JamLine {
+    const raw = jam.line_coordinates ?? jam.line;
+    const line = Array.isArray(raw)
+        ? raw.map(parseJamPoint).filter((point): point is [number, number] => point !== null)
+        : [];
+    if (line.length > 0) return line;
+
+    const start = parseJamPoint(jam.start_location) ?? parseJamPoint(jam);
+    return start ? [start] : [];
+}
+
+/** Normalize one jam from the API, or null when it has no id or location */
+export function parseJam(jam: RawJam): WazeJam | null {
+    const jamId = jam.jam_id ?? jam.id ?? jam.uuid;
+    const line = parseJamLine(jam);
+    if (jamId === undefined || jamId === null || line.length === 0) return null;
+
+    const level = toNumber(jam.level) ?? 0;
+    const speedMs = toNumber(jam.speed);
+
+    return {
+        jamId: String(jamId),
+        level: Math.min(Math.max(Math.round(level), 0), MAX_JAM_LEVEL),
+        speedKmh: toNumber(jam.speed_kmh ?? jam.speedKMH) ?? (speedMs !== null ? Math.round(speedMs * 3.6 * 10) / 10 : null),
+        lengthMeters: toNumber(jam.length_m ?? jam.length),
+        delaySeconds: toNumber(jam.delay_seconds ?? jam.delay),
+        street: toText(jam.street),
+        city: toText(jam.city),
+        line,
+        publishedAt: toText(jam.publish_datetime_utc ?? jam.published_at),
+    };
+}
+
+/** GeoJSON feature for the map - a LineString, or a Point for jams reported without geometry */
+export function jamToFeature(jam: WazeJam): GeoJSON.Feature {
+    return {
+        type: 'Feature',
+        geometry: jam.line.length >= 2
+            ? { type: 'LineString', coordinates: jam.line }
+            : { type: 'Point', coordinates: jam.line[0] },
+        properties: {
+            id: jam.jamId,
+            type: 'JAM',
+            street: jam.street ?? '',
+            city: jam.city ?? '',
+            publishedAt: jam.publishedAt,
+            kind: 'jam',
+            level: jam.level,
+            speed: jam.speedKmh,
+            length: jam.lengthMeters,
+            delay: jam.delaySeconds ?? 0,
+        },
+    };
+}
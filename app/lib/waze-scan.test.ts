@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Every query builder call chains, and awaiting any of them gives no rows
+const db = vi.hoisted(() => {
+    const query: object = new Proxy({}, {
+        get: (_target, prop) => (prop === 'then' ? (resolve: (rows: unknown[]) => void) => resolve([]) : () => query),
+    });
+    return query;
+});
+vi.mock('./db', () => ({ db }));
+vi.mock('./scan-quota', () => ({ ScanQuota: { record: vi.fn(async () => {}) } }));
+
+import type { LngLatBBox } from './tile-math';
+import { estimateScanRequests, scanWazeArea } from './waze-scan';
+
+const MAX_ALERTS = 500;
+
+/** Fake upstream: `alertsFor` decides how many alerts each requested cell holds */
+function mockUpstream(alertsFor: (cell: LngLatBBox) => number) {
+    const requested: LngLatBBox[] = [];
+
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+        const params = new URL(url).searchParams;
+        const [s, w] = params.get('bottom_left')!.split(',').map(Number);
+        const [n, e] = params.get('top_right')!.split(',').map(Number);
+        const cell = { w, s, e, n };
+        requested.push(cell);
+
+        const alerts = Array.from({ length: alertsFor(cell) }, (_, i) => ({
+            alert_id: `${w}:${s}:${e}:${n}:${i}`,
+            type: 'HAZARD',
+            longitude: (w + e) / 2,
+            latitude: (s + n) / 2,
+        }));
+        return new Response(JSON.stringify({ data: { alerts, jams: [] } }));
+    }));
+
+    return requested;
+}
+
+const span = (cell: LngLatBBox) => cell.e - cell.w;
+
+describe('estimateScanRequests', () => {
+    it('starts small areas with a single cell', () => {
+        expect(estimateScanRequests({ w: 151, s: -34, e: 151.4, n: -33.6 })).toBe(1);
+    });
+
+    it('grids larger areas in cells of up to half a degree', () => {
+        expect(estimateScanRequests({ w: 150, s: -35, e: 152, n: -33 })).toBe(16);
+    });
+
+    it('coarsens the grid to stay within 16 cells', () => {
+        // 20 x 20 half-degree cells, halved twice
+        expect(estimateScanRequests({ w: 140, s: -40, e: 150, n: -30 })).toBe(9);
+    });
+});
+
+describe('scanWazeArea', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('quarters a cell that comes back at the cap', async () => {
+        const requested = mockUpstream((cell) => (span(cell) > 0.3 ? MAX_ALERTS : 10));
+
+        const result = await scanWazeArea({ bbox: { w: 151, s: -34, e: 151.4, n: -33.6 } });
+
+        expect(result.ok).toBe(true);
+        if (!result.ok) return;
+        expect(requested).toHaveLength(5);
+        expect(result.requests).toBe(5);
+        expect(result.cells).toHaveLength(4);
+        expect(result.cells.every((cell) => cell.depth === 1 && !cell.truncated)).toBe(true);
+        // The quarters tile the parent exactly
+        const quarters = [
+            [151, -34, 151.2, -33.8],
+            [151.2, -34, 151.4, -33.8],
+            [151, -33.8, 151.2, -33.6],
+            [151.2, -33.8, 151.4, -33.6],
+        ];
+        result.cells.forEach(({ bbox }, i) => {
+            [bbox.w, bbox.s, bbox.e, bbox.n].forEach((edge, j) => expect(edge).toBeCloseTo(quarters[i][j]));
+        });
+        // Alerts from every level, merged by id
+        expect(result.counts.alerts).toBe(MAX_ALERTS + 40);
+    });
+
+    it('stops refining after three levels and reports the cell as truncated', async () => {
+        mockUpstream(() => MAX_ALERTS);
+
+        const result = await scanWazeArea({ bbox: { w: 151, s: -34, e: 151.4, n: -33.6 } });
+
+        expect(result.ok).toBe(true);
+        if (!result.ok) return;
+        // 1 + 4 + 16, then 43 of the 64 deepest cells before the request limit
+        expect(result.requests).toBe(64);
+        expect(result.cells.filter((cell) => cell.depth === 3 && !cell.error)).toHaveLength(43);
+        expect(result.cells.every((cell) => cell.truncated)).toBe(true);
+        expect(result.cells.filter((cell) => cell.error === 'Request limit reached')).toHaveLength(21);
+    });
+
+    it('holds refinement to maxRequests', async () => {
+        const requested = mockUpstream((cell) => (span(cell) > 0.3 ? MAX_ALERTS : 10));
+
+        const result = await scanWazeArea({ bbox: { w: 151, s: -34, e: 151.4, n: -33.6 } }, { maxRequests: 3 });
+
+        expect(result.ok).toBe(true);
+        if (!result.ok) return;
+        expect(requested).toHaveLength(3);
+        expect(result.truncated).toBe(true);
+        expect(result.cells.filter((cell) => cell.error === 'Request limit reached')).toHaveLength(2);
+    });
+
+    it('starts from initialCells cells and refines where it is dense', async () => {
+        const requested = mockUpstream((cell) => (span(cell) > 1 ? MAX_ALERTS : 10));
+
+        const result = await scanWazeArea({ bbox: { w: 150, s: -35, e: 152, n: -33 } }, { maxRequests: 9, initialCells: 1 });
+
+        expect(result.ok).toBe(true);
+        if (!result.ok) return;
+        expect(requested[0]).toEqual({ w: 150, s: -35, e: 152, n: -33 });
+        expect(requested).toHaveLength(5);
+        expect(result.truncated).toBe(false);
+    });
+
+    it('fails when every cell fails upstream', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        vi.stubGlobal('fetch', vi.fn(async () => new Response('nope', { status: 503 })));
+
+        const result = await scanWazeArea({ bbox: { w: 151, s: -34, e: 151.4, n: -33.6 } });
+
+        expect(result).toEqual({ ok: false, status: 503, message: 'Upstream error' });
+    });
+});
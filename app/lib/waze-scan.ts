@@ -0,0 +1,541 @@
+// Waze scan pipeline - fetches alerts and jams for an area from OpenWebNinja and records them in Postgres
+// Shared by /api/scan (the map's Police Reports button) and the watch area scheduler. Each upstream request
+// is counted against the daily quota (scan-quota.ts). Database writes are best effort: a failed write is
+// logged and the scan result is still returned.
+// Upstream returns at most MAX_ALERTS alerts per request, so large areas are split into a grid of cells
+// (quadtree-refining any cell that comes back at the cap), scanned a few at a time and merged by id.
+
+import { z } from 'zod';
+import { and, between, inArray, isNull, notInArray, or, sql } from 'drizzle-orm';
+import { db } from './db';
+import { ScanQuota } from './scan-quota';
+import { policeReports, trafficAlerts, trafficJams } from './schema';
+import type { LngLatBBox } from './tile-math';
+import { WazeJam, jamToFeature, parseJam } from './waze-jams';
+
+const EnvSchema = z.object({
+    OPENWEBNINJA_API_KEY: z.string().min(10).optional(),
+});
+
+// Validated so a malformed key fails at startup; without one, requests use a placeholder and fail upstream
+const env = EnvSchema.parse(process.env);
+const API_KEY = env.OPENWEBNINJA_API_KEY || 'ak_xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx';
+
+// Upstream caps per request - a scan that hits MAX_ALERTS may be missing alerts
+const MAX_ALERTS = 500;
+const MAX_JAMS = 500;
+
+// Grid cells start no larger than this (degrees); state-wide views get coarser cells to fit MAX_GRID_CELLS
+const MAX_CELL_SPAN_DEG = 0.5;
+const MAX_GRID_CELLS = 16;
+// A capped cell is split into quarters and rescanned, this many times at most
+const MAX_CELL_DEPTH = 3;
+// Upstream requests per scan, refinements included
+const MAX_SCAN_REQUESTS = 64;
+const MAX_CONCURRENT_CELLS = 4;
+
+const ALERT_TYPES = [
+    'ACCIDENT',
+    'HAZARD',
+    'POLICE',
+    'CAMERA',
+    'JAM',
+    'ROAD_CLOSED_LANE',
+    'FREEWAY_CLOSED',
+    'MODERATE_TRAFFIC',
+    'HEAVY_TRAFFIC',
+    'LIGHT_TRAFFIC'
+].join(',');
+
+// Alerts as upstream sends them - field names vary between API versions, hence the alternatives
+interface RawAlert {
+    alert_id?: string | number;
+    id?: string | number;
+    type?: string;
+    subtype?: string | null;
+    latitude?: number;
+    lat?: number;
+    longitude?: number;
+    lon?: number;
+    street?: string | null;
+    city?: string | null;
+    alert_reliability?: number | null;
+    reliability?: number | null;
+    alert_confidence?: number | null;
+    confidence?: number | null;
+    description?: string | null;
+    publish_datetime_utc?: string | null;
+    published_at?: string | null;
+}
+
+/** Closed ring of [lng, lat] vertices */
+export type ScanPolygon = [number, number][];
+
+export interface WazeScanArea {
+    bbox: LngLatBBox;
+    /** Only keep (and resolve) alerts and jams inside this outline; the bbox should be its bounds */
+    polygon?: ScanPolygon | null;
+}
+
+/** One scanned cell (a leaf of the quadtree) */
+export interface ScanCellReport {
+    bbox: LngLatBBox;
+    /** Quadtree level, 0 for grid cells */
+    depth: number;
+    alerts: number;
+    jams: number;
+    /** Upstream returned its cap for this cell, so there may be more - or the cell wasn't scanned */
+    truncated: boolean;
+    error?: string;
+}
+
+export type WazeScanResult =
+    | {
+        ok: true;
+        geojson: GeoJSON.FeatureCollection;
+        counts: { alerts: number; jams: number };
+        cells: ScanCellReport[];
+        /** Some cell may be missing results */
+        truncated: boolean;
+        requests: number;
+    }
+    | { ok: false; status: number; message: string };
+
+type CellFetchResult =
+    | { ok: true; alerts: RawAlert[]; jams: WazeJam[] }
+    | { ok: false; status: number; message: string };
+
+function alertIdOf(alert: { alert_id?: unknown; id?: unknown }): string {
+    return String(alert.alert_id ?? alert.id);
+}
+
+function cleanText(input: unknown): string {
+    if (typeof input !== 'string') return '';
+    return input.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/** Bounds of a polygon */
+export function polygonBounds(polygon: ScanPolygon): LngLatBBox {
+    const lngs = polygon.map(([lng]) => lng);
+    const lats = polygon.map(([, lat]) => lat);
+    return { w: Math.min(...lngs), s: Math.min(...lats), e: Math.max(...lngs), n: Math.max(...lats) };
+}
+
+/** Split a bbox into at most maxCells grid cells of up to MAX_CELL_SPAN_DEG */
+function splitIntoGrid(bbox: LngLatBBox, maxCells: number): LngLatBBox[] {
+    let cols = Math.max(1, Math.ceil((bbox.e - bbox.w) / MAX_CELL_SPAN_DEG));
+    let rows = Math.max(1, Math.ceil((bbox.n - bbox.s) / MAX_CELL_SPAN_DEG));
+
+    // Too many for the request limit - coarser cells, refinement finds the dense ones
+    while (cols * rows > Math.max(maxCells, 1)) {
+        cols = Math.ceil(cols / 2);
+        rows = Math.ceil(rows / 2);
+    }
+
+    const width = (bbox.e - bbox.w) / cols;
+    const height = (bbox.n - bbox.s) / rows;
+    const cells: LngLatBBox[] = [];
+    for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+            cells.push({
+                w: bbox.w + col * width,
+                s: bbox.s + row * height,
+                e: col === cols - 1 ? bbox.e : bbox.w + (col + 1) * width,
+                n: row === rows - 1 ? bbox.n : bbox.s + (row + 1) * height,
+            });
+        }
+    }
+    return cells;
+}
+
+/** Requests a scan of the bbox starts with - cells that hit the cap add more, up to MAX_SCAN_REQUESTS */
+export function estimateScanRequests(bbox: LngLatBBox): number {
+    return splitIntoGrid(bbox, MAX_GRID_CELLS).length;
+}
+
+function quarterCell(cell: LngLatBBox): LngLatBBox[] {
+    const midLng = (cell.w + cell.e) / 2;
+    const midLat = (cell.s + cell.n) / 2;
+    return [
+        { w: cell.w, s: cell.s, e: midLng, n: midLat },
+        { w: midLng, s: cell.s, e: cell.e, n: midLat },
+        { w: cell.w, s: midLat, e: midLng, n: cell.n },
+        { w: midLng, s: midLat, e: cell.e, n: cell.n },
+    ];
+}
+
+/** Ray casting point-in-polygon test */
+function isInsidePolygon(lng: number, lat: number, polygon: ScanPolygon): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const [xi, yi] = polygon[i];
+        const [xj, yj] = polygon[j];
+        if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+async function savePoliceReports(policeAlerts: RawAlert[]): Promise<void> {
+    try {
+        const reportsToInsert = policeAlerts.map((a) => ({
+            alertId: String(a.alert_id ?? a.id),
+            type: String(a.type ?? 'POLICE').toUpperCase(),
+            subtype: a.subtype ?? null,
+            latitude: Number(a.latitude ?? a.lat) || null,
+            longitude: Number(a.longitude ?? a.lon) || null,
+            street: a.street ?? null,
+            city: a.city ?? null,
+            alertReliability: a.alert_reliability ?? a.reliability ?? null,
+            publishDatetimeUtc: a.publish_datetime_utc ? new Date(a.publish_datetime_utc) : null,
+        }));
+
+        await db.insert(policeReports)
+            .values(reportsToInsert)
+            .onConflictDoUpdate({
+                target: policeReports.alertId,
+                set: {
+                    type: policeReports.type,
+                    subtype: policeReports.subtype,
+                    latitude: policeReports.latitude,
+                    longitude: policeReports.longitude,
+                    street: policeReports.street,
+                    city: policeReports.city,
+                    alertReliability: policeReports.alertReliability,
+                    publishDatetimeUtc: policeReports.publishDatetimeUtc,
+                },
+            });
+
+        console.log(`[Waze DB] Upserted ${policeAlerts.length} police reports to database`);
+    } catch (dbError) {
+        console.error('[Waze DB] Error saving police reports:', dbError);
+        // Don't fail the scan if DB write fails
+    }
+}
+
+/** Upsert alerts, returning their lifecycle (first seen, times seen) by alert id */
+async function saveTrafficAlerts(alerts: RawAlert[]): Promise<Map<string, { firstSeenAt: Date; seenCount: number }>> {
+    const lifecycle = new Map<string, { firstSeenAt: Date; seenCount: number }>();
+
+    try {
+        const alertsToInsert = alerts.map((a) => ({
+            alertId: String(a.alert_id ?? a.id),
+            type: String(a.type ?? 'ALERT').toUpperCase(),
+            subtype: a.subtype ?? null,
+            latitude: Number(a.latitude ?? a.lat) || null,
+            longitude: Number(a.longitude ?? a.lon) || null,
+            street: a.street ?? null,
+            city: a.city ?? null,
+            alertReliability: a.alert_reliability ?? a.reliability ?? null,
+            alertConfidence: a.alert_confidence ?? a.confidence ?? null,
+            description: cleanText(a.description ?? ''),
+            publishDatetimeUtc: a.publish_datetime_utc ? new Date(a.publish_datetime_utc) : null,
+        }));
+
+        const upserted = await db.insert(trafficAlerts)
+            .values(alertsToInsert)
+            .onConflictDoUpdate({
+                target: trafficAlerts.alertId,
+                set: {
+                    type: trafficAlerts.type,
+                    subtype: trafficAlerts.subtype,
+                    latitude: trafficAlerts.latitude,
+                    longitude: trafficAlerts.longitude,
+                    street: trafficAlerts.street,
+                    city: trafficAlerts.city,
+                    alertReliability: trafficAlerts.alertReliability,
+                    alertConfidence: trafficAlerts.alertConfidence,
+                    description: trafficAlerts.description,
+                    publishDatetimeUtc: trafficAlerts.publishDatetimeUtc,
+                    lastSeenAt: sql`now()`,
+                    seenCount: sql`${trafficAlerts.seenCount} + 1`,
+                    resolvedAt: null,
+                },
+            })
+            .returning({
+                alertId: trafficAlerts.alertId,
+                firstSeenAt: trafficAlerts.firstSeenAt,
+                seenCount: trafficAlerts.seenCount,
+            });
+
+        for (const row of upserted) {
+            lifecycle.set(row.alertId, row);
+        }
+
+        console.log(`[Waze DB] Upserted ${alerts.length} traffic alerts to database`);
+    } catch (dbError) {
+        console.error('[Waze DB] Error saving traffic alerts:', dbError);
+        // Don't fail the scan if DB write fails
+    }
+
+    return lifecycle;
+}
+
+/**
+ * Mark unresolved alerts inside the scanned cells that the scan no longer returned as resolved
+ * All cells are checked at once - one query for the candidates and one UPDATE per scan.
+ */
+async function resolveMissingAlerts(cells: LngLatBBox[], polygon: ScanPolygon | null | undefined, seenIds: string[]): Promise<void> {
+    if (cells.length === 0) return;
+
+    try {
+        const candidates = await db
+            .select({ alertId: trafficAlerts.alertId, latitude: trafficAlerts.latitude, longitude: trafficAlerts.longitude })
+            .from(trafficAlerts)
+            .where(and(
+                isNull(trafficAlerts.resolvedAt),
+                or(...cells.map((cell) => and(
+                    between(trafficAlerts.longitude, cell.w, cell.e),
+                    between(trafficAlerts.latitude, cell.s, cell.n),
+                ))),
+                seenIds.length > 0 ? notInArray(trafficAlerts.alertId, seenIds) : undefined,
+            ));
+
+        const missing = candidates
+            .filter((a) => !polygon || isInsidePolygon(a.longitude!, a.latitude!, polygon))
+            .map((a) => a.alertId);
+        if (missing.length === 0) return;
+
+        await db.update(trafficAlerts)
+            .set({ resolvedAt: sql`now()` })
+            .where(inArray(trafficAlerts.alertId, missing));
+
+        console.log(`[Waze DB] Resolved ${missing.length} traffic alerts no longer reported`);
+    } catch (dbError) {
+        console.error('[Waze DB] Error resolving traffic alerts:', dbError);
+    }
+}
+
+/** Upsert jams - level, speed and geometry change between scans, so take the new values */
+async function saveTrafficJams(jams: WazeJam[]): Promise<void> {
+    try {
+        // A jam listed twice in one batch would make the upsert fail
+        const uniqueJams = Array.from(new Map(jams.map((j) => [j.jamId, j])).values());
+        const jamsToInsert = uniqueJams.map((j) => ({
+            jamId: j.jamId,
+            line: j.line,
+            latitude: j.line[0][1],
+            longitude: j.line[0][0],
+            level: j.level,
+            speedKmh: j.speedKmh,
+            delaySeconds: j.delaySeconds !== null ? Math.round(j.delaySeconds) : null,
+            lengthMeters: j.lengthMeters !== null ? Math.round(j.lengthMeters) : null,
+            street: j.street,
+            city: j.city,
+            publishDatetimeUtc: j.publishedAt ? new Date(j.publishedAt) : null,
+        }));
+
+        await db.insert(trafficJams)
+            .values(jamsToInsert)
+            .onConflictDoUpdate({
+                target: trafficJams.jamId,
+                set: {
+                    line: sql`excluded.line`,
+                    latitude: sql`excluded.latitude`,
+                    longitude: sql`excluded.longitude`,
+                    level: sql`excluded.level`,
+                    speedKmh: sql`excluded.speed_kmh`,
+                    delaySeconds: sql`excluded.delay_seconds`,
+                    lengthMeters: sql`excluded.length_meters`,
+                    street: sql`excluded.street`,
+                    city: sql`excluded.city`,
+                    updatedAt: sql`now()`,
+                },
+            });
+
+        console.log(`[Waze DB] Upserted ${uniqueJams.length} traffic jams to database`);
+    } catch (dbError) {
+        console.error('[Waze DB] Error saving traffic jams:', dbError);
+        // Don't fail the scan if DB write fails
+    }
+}
+
+/** One upstream request for a cell */
+async function fetchCell(cell: LngLatBBox): Promise<CellFetchResult> {
+    const bottomLeft = `${cell.s},${cell.w}`;
+    const topRight = `${cell.n},${cell.e}`;
+
+    const targetUrl = `https://api.openwebninja.com/waze/alerts-and-jams?bottom_left=${bottomLeft}&top_right=${topRight}&alert_types=${ALERT_TYPES}&max_alerts=${MAX_ALERTS}&max_jams=${MAX_JAMS}`;
+
+    console.log(`[Waze API] Fetching from: ${targetUrl}`);
+
+    ScanQuota.record().catch((err) => {
+        console.error('[ScanQuota] Failed to record request:', err);
+    });
+
+    const owResp = await fetch(targetUrl, {
+        headers: { 'x-api-key': API_KEY },
+    });
+
+    if (!owResp.ok) {
+        console.error(`[Waze API] Upstream error: ${owResp.status}`);
+        return { ok: false, status: owResp.status, message: 'Upstream error' };
+    }
+
+    const raw = await owResp.json();
+    return {
+        ok: true,
+        alerts: Array.isArray(raw.data?.alerts) ? raw.data.alerts : [],
+        jams: (Array.isArray(raw.data?.jams) ? raw.data.jams : [])
+            .map(parseJam)
+            .filter((jam: WazeJam | null): jam is WazeJam => jam !== null),
+    };
+}
+
+/** Fetch cells with MAX_CONCURRENT_CELLS workers; results line up with cells */
+async function fetchCells(cells: LngLatBBox[]): Promise<CellFetchResult[]> {
+    const results: CellFetchResult[] = new Array(cells.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < cells.length) {
+            const i = next++;
+            results[i] = await fetchCell(cells[i]).catch((error): CellFetchResult => {
+                console.error('[Waze API] Request failed:', error);
+                return { ok: false, status: 502, message: error instanceof Error ? error.message : 'Request failed' };
+            });
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_CELLS, cells.length) }, worker));
+    return results;
+}
+
+/**
+ * Scan an area: fetch its alerts and jams, record them, and resolve alerts that have cleared
+ * Uses at most maxRequests upstream requests (MAX_SCAN_REQUESTS by default), starting from a grid of at
+ * most initialCells cells - a small grid leaves requests for refining the cells that hit the cap. Cells
+ * left unscanned or still at the cap after MAX_CELL_DEPTH refinements are reported as truncated.
+ * Returns the results as GeoJSON for the map.
+ */
+export async function scanWazeArea(
+    area: WazeScanArea,
+    options: { maxRequests?: number; initialCells?: number } = {}
+): Promise<WazeScanResult> {
+    const { bbox, polygon } = area;
+    const maxRequests = Math.max(1, Math.min(options.maxRequests ?? MAX_SCAN_REQUESTS, MAX_SCAN_REQUESTS));
+
+    const alertsById = new Map<string, RawAlert>();
+    const jamsById = new Map<string, WazeJam>();
+    const cells: ScanCellReport[] = [];
+    let firstError: { status: number; message: string } | null = null;
+    let requests = 0;
+
+    let level = splitIntoGrid(bbox, Math.min(options.initialCells ?? MAX_GRID_CELLS, MAX_GRID_CELLS, maxRequests));
+    for (let depth = 0; level.length > 0; depth++) {
+        const scanned = level.slice(0, maxRequests - requests);
+        const results = await fetchCells(scanned);
+        requests += scanned.length;
+
+        // Out of requests - the rest of this level goes unscanned
+        for (const cell of level.slice(scanned.length)) {
+            cells.push({ bbox: cell, depth, alerts: 0, jams: 0, truncated: true, error: 'Request limit reached' });
+        }
+
+        const refine: LngLatBBox[] = [];
+        for (const [i, cell] of scanned.entries()) {
+            const result = results[i];
+            if (!result.ok) {
+                firstError ??= { status: result.status, message: result.message };
+                cells.push({ bbox: cell, depth, alerts: 0, jams: 0, truncated: true, error: result.message });
+                continue;
+            }
+
+            for (const alert of result.alerts) alertsById.set(alertIdOf(alert), alert);
+            for (const jam of result.jams) jamsById.set(jam.jamId, jam);
+
+            const capped = result.alerts.length >= MAX_ALERTS || result.jams.length >= MAX_JAMS;
+            if (capped && depth < MAX_CELL_DEPTH) {
+                refine.push(...quarterCell(cell));
+            } else {
+                cells.push({ bbox: cell, depth, alerts: result.alerts.length, jams: result.jams.length, truncated: capped });
+            }
+        }
+
+        level = refine;
+    }
+
+    if (firstError && cells.every((cell) => cell.error)) {
+        return { ok: false, ...firstError };
+    }
+
+    const truncatedCells = cells.filter((cell) => cell.truncated);
+    if (truncatedCells.length > 0) {
+        console.warn(`[Waze API] ${truncatedCells.length} of ${cells.length} cells may be missing results`);
+    }
+
+    const returnedAlerts = Array.from(alertsById.values());
+    const returnedJams = Array.from(jamsById.values());
+
+    // Polygon areas keep what falls inside the outline (jams touching it)
+    const alerts = polygon
+        ? returnedAlerts.filter((a) => isInsidePolygon(Number(a.longitude ?? a.lon), Number(a.latitude ?? a.lat), polygon))
+        : returnedAlerts;
+    const jams = polygon
+        ? returnedJams.filter((j) => j.line.some(([lng, lat]) => isInsidePolygon(lng, lat, polygon)))
+        : returnedJams;
+
+    // Filter for police-related alerts
+    const policeAlerts = alerts.filter((a) => {
+        const type = String(a.type ?? '').toUpperCase();
+        return type === 'POLICE' || type.includes('POLICE');
+    });
+
+    if (policeAlerts.length > 0) {
+        await savePoliceReports(policeAlerts);
+    }
+
+    const lifecycle = alerts.length > 0
+        ? await saveTrafficAlerts(alerts)
+        : new Map<string, { firstSeenAt: Date; seenCount: number }>();
+
+    // Alerts inside a scanned cell that this scan no longer returns have cleared.
+    // Skipped for truncated cells - a missing alert may just be past the cap.
+    await resolveMissingAlerts(
+        cells.filter((cell) => !cell.truncated).map((cell) => cell.bbox),
+        polygon,
+        alerts.map(alertIdOf)
+    );
+
+    if (jams.length > 0) {
+        await saveTrafficJams(jams);
+    }
+
+    const geojson: GeoJSON.FeatureCollection = {
+        type: 'FeatureCollection',
+        features: [
+            ...alerts.map((a): GeoJSON.Feature => ({
+                type: 'Feature',
+                geometry: {
+                    type: 'Point',
+                    coordinates: [Number(a.longitude ?? a.lon), Number(a.latitude ?? a.lat)],
+                },
+                properties: {
+                    id: a.alert_id ?? a.id,
+                    type: String(a.type ?? 'ALERT').toUpperCase(),
+                    subtype: a.subtype ?? '',
+                    confidence: a.alert_confidence ?? a.confidence ?? 0,
+                    reliability: a.alert_reliability ?? a.reliability ?? 0,
+                    street: a.street ?? '',
+                    city: a.city ?? '',
+                    publishedAt: a.publish_datetime_utc ?? a.published_at,
+                    description: cleanText(a.description ?? ''),
+                    kind: 'alert',
+                    firstSeenAt: lifecycle.get(alertIdOf(a))?.firstSeenAt.toISOString(),
+                    seenCount: lifecycle.get(alertIdOf(a))?.seenCount,
+                },
+            })),
+            ...jams.map(jamToFeature),
+        ],
+    };
+
+    return {
+        ok: true,
+        geojson,
+        counts: { alerts: alerts.length, jams: jams.length },
+        cells,
+        truncated: truncatedCells.length > 0,
+        requests,
+    };
+}
@@ -45,6 +45,15 @@ export type OrbitUpdateFromInput = {
   rightY?: number; // speed control
 };
 
+/** Live orbit pose - the camera circles `target` at `speedDegPerSec` */
+export type OrbitState = {
+  target: maplibregl.LngLatLike;
+  zoom: number;
+  pitch: number;
+  bearing: number;
+  speedDegPerSec: number;
+};
+
 const clamp = (v: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, v));
 const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
 
@@ -92,6 +101,19 @@ export class OrbitController {
     return this.target;
   }
 
+  /** Current orbit pose, or null when not orbiting (used to prefetch tiles ahead of the sweep). */
+  getState(): OrbitState | null {
+    if (!this.running || !this.target) return null;
+
+    return {
+      target: this.target,
+      zoom: this.zoom,
+      pitch: this.pitch,
+      bearing: this.bearing,
+      speedDegPerSec: this.speedDegPerSec,
+    };
+  }
+
   /** Start orbit immediately (assumes you've already flown to a good pose). */
   start(opts: OrbitStartOptions) {
     this.stop(); // clean restart
@@ -0,0 +1,202 @@
+// /map/prefetch/MotionPredictor.ts
+// Predicts where the camera will be over the next few seconds, so tiles can be fetched before they're needed
+// Inputs: gamepad velocity (MapController), the running orbit (OrbitController), in-flight flyTo
+// destinations, and measured camera motion for everything else (touch/mouse inertia, drone mode)
+
+import maplibregl from 'maplibre-gl';
+import type { MapVelocity } from '../../lib/gamepad/map-controller';
+import type { OrbitState } from '../camera/OrbitController';
+
+export type PredictedView = {
+  center: maplibregl.LngLat;
+  zoom: number;
+  bearing: number;
+  pitch: number;
+  reason: 'flight' | 'orbit' | 'motion' | 'zoom';
+};
+
+export type MotionInputs = {
+  getGamepadVelocity?: () => MapVelocity | null;
+  getOrbitState?: () => OrbitState | null;
+};
+
+/** Camera motion in Web Mercator units (0..1 world) per second and zoom levels per second */
+type Motion = { x: number; y: number; zoom: number };
+
+// How far ahead to predict, in seconds
+const LOOKAHEAD_SECONDS = [1, 2.5];
+
+// Mercator world size in pixels at zoom 0 (MapLibre's 512px tile grid)
+export const WORLD_SIZE_PX = 512;
+
+// Smoothing for measured motion (0..1); higher = follows changes faster
+const MOTION_SMOOTHING = 0.3;
+
+// Samples further apart than this mean the camera was idle - measured motion restarts from zero
+const MAX_SAMPLE_GAP_MS = 250;
+
+// Below these the camera counts as stationary
+const MIN_SPEED_PX_PER_SEC = 20;
+const MIN_ZOOM_RATE = 0.05;
+
+const clamp = (v: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, v));
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+export class MotionPredictor {
+  private map: maplibregl.Map;
+  private inputs: MotionInputs;
+  private onFlightStart: () => void;
+
+  private originalFlyTo: maplibregl.Map['flyTo'];
+  private flight: Omit<PredictedView, 'reason'> | null = null;
+
+  private measured: Motion = { x: 0, y: 0, zoom: 0 };
+  private lastSample: { x: number; y: number; zoom: number; time: number } | null = null;
+
+  constructor(map: maplibregl.Map, inputs: MotionInputs, onFlightStart: () => void) {
+    this.map = map;
+    this.inputs = inputs;
+    this.onFlightStart = onFlightStart;
+
+    // flyTo is called from many places (search, flight deck, geolocate, camera modes) - wrapping the
+    // map's own method sees every destination as soon as the flight starts
+    this.originalFlyTo = map.flyTo;
+    map.flyTo = ((options: maplibregl.FlyToOptions, eventData?: unknown) => {
+      const result = this.originalFlyTo.call(map, options, eventData);
+
+      // Set after starting: flyTo stops the previous animation, which fires its moveend synchronously
+      if (options.center && map.isMoving()) {
+        this.flight = {
+          center: maplibregl.LngLat.convert(options.center),
+          zoom: options.zoom ?? map.getZoom(),
+          bearing: options.bearing ?? map.getBearing(),
+          pitch: options.pitch ?? map.getPitch(),
+        };
+        this.onFlightStart();
+      }
+
+      return result;
+    }) as maplibregl.Map['flyTo'];
+
+    map.on('move', this.handleMove);
+    map.on('moveend', this.handleMoveEnd);
+  }
+
+  /**
+   * Views the camera is expected to pass through, most valuable first
+   */
+  predict(): PredictedView[] {
+    const center = this.map.getCenter();
+    const current = { center, zoom: this.map.getZoom(), bearing: this.map.getBearing(), pitch: this.map.getPitch() };
+    const views: PredictedView[] = [];
+
+    if (this.flight) {
+      views.push({ ...this.flight, reason: 'flight' });
+    }
+
+    const orbit = this.inputs.getOrbitState?.();
+    const motion = this.getMotion(current.zoom, current.bearing);
+
+    if (orbit) {
+      // Orbit keeps the center fixed - what changes is the direction the pitched camera looks
+      for (const t of LOOKAHEAD_SECONDS) {
+        views.push({
+          center: maplibregl.LngLat.convert(orbit.target),
+          zoom: orbit.zoom,
+          pitch: orbit.pitch,
+          bearing: orbit.bearing + orbit.speedDegPerSec * t,
+          reason: 'orbit',
+        });
+      }
+    } else if (motion) {
+      const origin = maplibregl.MercatorCoordinate.fromLngLat(center);
+
+      for (const t of LOOKAHEAD_SECONDS) {
+        const x = origin.x + motion.x * t;
+        const y = clamp(origin.y + motion.y * t, 0, 1);
+        views.push({
+          ...current,
+          center: new maplibregl.MercatorCoordinate(x - Math.floor(x), y).toLngLat(),
+          zoom: clamp(current.zoom + motion.zoom * t, this.map.getMinZoom(), this.map.getMaxZoom()),
+          reason: 'motion',
+        });
+      }
+    }
+
+    // The next zoom level in the direction the camera is zooming (in, when it isn't)
+    const zoomDirection = motion && motion.zoom < -MIN_ZOOM_RATE ? -1 : 1;
+    views.push({
+      ...current,
+      zoom: clamp(current.zoom + zoomDirection, this.map.getMinZoom(), this.map.getMaxZoom()),
+      reason: 'zoom',
+    });
+
+    return views;
+  }
+
+  /**
+   * Current camera motion - gamepad intent when it's driving the map, otherwise measured
+   * Returns null when the camera is (near enough) stationary.
+   */
+  private getMotion(zoom: number, bearing: number): Motion | null {
+    const pxToWorld = 1 / (WORLD_SIZE_PX * Math.pow(2, zoom));
+    const gamepad = this.inputs.getGamepadVelocity?.();
+
+    if (gamepad && (Math.hypot(gamepad.panX, gamepad.panY) >= MIN_SPEED_PX_PER_SEC || Math.abs(gamepad.zoom) >= MIN_ZOOM_RATE)) {
+      // Screen axes rotated into north-up world axes
+      const rad = (bearing * Math.PI) / 180;
+      return {
+        x: (gamepad.panX * Math.cos(rad) - gamepad.panY * Math.sin(rad)) * pxToWorld,
+        y: (gamepad.panX * Math.sin(rad) + gamepad.panY * Math.cos(rad)) * pxToWorld,
+        zoom: gamepad.zoom,
+      };
+    }
+
+    if (!this.lastSample || performance.now() - this.lastSample.time > MAX_SAMPLE_GAP_MS) return null;
+
+    const speedPx = Math.hypot(this.measured.x, this.measured.y) / pxToWorld;
+    if (speedPx < MIN_SPEED_PX_PER_SEC && Math.abs(this.measured.zoom) < MIN_ZOOM_RATE) return null;
+
+    return { ...this.measured };
+  }
+
+  private handleMove = () => {
+    const now = performance.now();
+    const position = maplibregl.MercatorCoordinate.fromLngLat(this.map.getCenter());
+    const zoom = this.map.getZoom();
+    const last = this.lastSample;
+
+    if (last && now > last.time && now - last.time <= MAX_SAMPLE_GAP_MS) {
+      const dt = (now - last.time) / 1000;
+
+      // Shortest way round across the antimeridian
+      let dx = position.x - last.x;
+      if (dx > 0.5) dx -= 1;
+      if (dx < -0.5) dx += 1;
+
+      this.measured = {
+        x: lerp(this.measured.x, dx / dt, MOTION_SMOOTHING),
+        y: lerp(this.measured.y, (position.y - last.y) / dt, MOTION_SMOOTHING),
+        zoom: lerp(this.measured.zoom, (zoom - last.zoom) / dt, MOTION_SMOOTHING),
+      };
+    } else {
+      this.measured = { x: 0, y: 0, zoom: 0 };
+    }
+
+    this.lastSample = { x: position.x, y: position.y, zoom, time: now };
+  };
+
+  private handleMoveEnd = () => {
+    // Frame-by-frame movers (gamepad, orbit) also fire moveend, but never while a flyTo is running
+    if (!this.map.isMoving()) {
+      this.flight = null;
+    }
+  };
+
+  cleanup() {
+    this.map.flyTo = this.originalFlyTo;
+    this.map.off('move', this.handleMove);
+    this.map.off('moveend', this.handleMoveEnd);
+    this.flight = null;
+  }
+}
@@ -0,0 +1,56 @@
+// /map/prefetch/PrefetchBudget.ts
+// Token bucket capping how many tiles prediction may request, sized to the connection
+// so prefetching never competes with the tiles the user is actually looking at
+
+type BudgetTier = {
+  tilesPerSecond: number;
+  burst: number;
+};
+
+// Network Information API (Chromium only, not in the TS DOM lib)
+type NetworkInformationLike = {
+  effectiveType?: string;
+  saveData?: boolean;
+};
+
+const DISABLED: BudgetTier = { tilesPerSecond: 0, burst: 0 };
+
+const TIERS: Record<string, BudgetTier> = {
+  'slow-2g': DISABLED,
+  '2g': DISABLED,
+  '3g': { tilesPerSecond: 2, burst: 20 },
+  '4g': { tilesPerSecond: 8, burst: 60 },
+};
+
+// Browsers without the Network Information API
+const DEFAULT_TIER = TIERS['4g'];
+
+export class PrefetchBudget {
+  private tokens: number;
+  private lastRefill = performance.now();
+
+  constructor() {
+    // Start full so the first prediction isn't starved
+    this.tokens = this.getTier().burst;
+  }
+
+  /** Current tier - Data Saver and 2G connections disable prefetching entirely. */
+  getTier(): BudgetTier {
+    const connection = (navigator as Navigator & { connection?: NetworkInformationLike }).connection;
+    if (connection?.saveData) return DISABLED;
+    return (connection?.effectiveType && TIERS[connection.effectiveType]) || DEFAULT_TIER;
+  }
+
+  /** Take up to `requested` tiles from the bucket; returns how many may be fetched now. */
+  take(requested: number): number {
+    const tier = this.getTier();
+    const now = performance.now();
+
+    this.tokens = Math.min(tier.burst, this.tokens + ((now - this.lastRefill) / 1000) * tier.tilesPerSecond);
+    this.lastRefill = now;
+
+    const granted = Math.min(requested, Math.floor(this.tokens));
+    this.tokens -= granted;
+    return granted;
+  }
+}
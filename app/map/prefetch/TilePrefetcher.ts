@@ -0,0 +1,156 @@
+// /map/prefetch/TilePrefetcher.ts
+// Predictive tile prefetching - turns MotionPredictor views into tile URLs for the service worker
+// Covers the ground under each predicted view, the pitched horizon ahead of it and the next zoom level,
+// throttled and capped by a connection-aware PrefetchBudget
+
+import maplibregl from 'maplibre-gl';
+import { MotionInputs, MotionPredictor, PredictedView, WORLD_SIZE_PX } from './MotionPredictor';
+import { PrefetchBudget } from './PrefetchBudget';
+import { TILE_SOURCES, TileSourceDefinition, TileSourceId, getServedMaxZoom, getTilePath } from '../../lib/tile-sources';
+import { prefetchTiles } from '../../lib/service-worker';
+
+// Minimum time between prediction passes while the camera moves
+const PREFETCH_INTERVAL_MS = 500;
+
+// URLs requested recently are not requested again (the service worker has them or is fetching them)
+const RECENT_TTL_MS = 5 * 60 * 1000;
+const MAX_RECENT = 5000;
+
+// Tiles around each predicted center, in each direction (1 = 3x3)
+const GROUND_RADIUS = 1;
+
+// Pitched cameras see this many screen-heights ahead, one zoom level coarser per step
+const HORIZON_STEPS = [
+  { minPitch: 60, steps: 3 },
+  { minPitch: 40, steps: 2 },
+  { minPitch: 25, steps: 1 },
+];
+
+/**
+ * Zoom level MapLibre requests for a source at a map zoom
+ * The map renders a 512px tile grid, so 256px sources load one level deeper.
+ */
+function tileZoomFor(id: TileSourceId, mapZoom: number): number {
+  const source: TileSourceDefinition = TILE_SOURCES[id];
+  const tileSize = source.tileSize ?? (source.type === 'vector' ? 512 : 256);
+  const zoom = Math.floor(mapZoom + Math.log2(WORLD_SIZE_PX / tileSize));
+  return Math.min(Math.max(zoom, source.minZoom), getServedMaxZoom(source));
+}
+
+export class TilePrefetcher {
+  private map: maplibregl.Map;
+  private predictor: MotionPredictor;
+  private budget = new PrefetchBudget();
+  private sources: TileSourceId[] = [];
+
+  private lastRun = 0;
+  private recent = new Map<string, number>();
+
+  constructor(map: maplibregl.Map, inputs: MotionInputs) {
+    this.map = map;
+    // A new flight destination is the most valuable prediction - don't wait for the throttle
+    this.predictor = new MotionPredictor(map, inputs, () => this.run());
+
+    map.on('move', this.handleMove);
+    map.on('moveend', this.handleMove);
+  }
+
+  /** Sources the current style shows (base layer, labels, terrain) */
+  setSources(sources: TileSourceId[]) {
+    this.sources = sources;
+  }
+
+  private handleMove = () => {
+    if (performance.now() - this.lastRun >= PREFETCH_INTERVAL_MS) {
+      this.run();
+    }
+  };
+
+  private run() {
+    this.lastRun = performance.now();
+    if (this.sources.length === 0) return;
+
+    const now = Date.now();
+    const urls: string[] = [];
+    const queued = new Set<string>();
+
+    for (const view of this.predictor.predict()) {
+      for (const url of this.getViewTiles(view)) {
+        const requestedAt = this.recent.get(url);
+        if (queued.has(url) || (requestedAt && now - requestedAt < RECENT_TTL_MS)) continue;
+        queued.add(url);
+        urls.push(url);
+      }
+    }
+
+    // Most valuable first, so the budget cuts the speculative tail
+    const granted = this.budget.take(urls.length);
+    if (granted === 0) return;
+
+    const batch = urls.slice(0, granted);
+    for (const url of batch) {
+      this.recent.delete(url);
+      this.recent.set(url, now);
+    }
+    while (this.recent.size > MAX_RECENT) {
+      this.recent.delete(this.recent.keys().next().value as string);
+    }
+
+    prefetchTiles(batch).catch((err) => {
+      console.error('[Prefetch] Error:', err);
+    });
+
+    console.log(`[Prefetch] Queued ${batch.length}/${urls.length} predicted tiles for background caching`);
+  }
+
+  /**
+   * Tile URLs for one predicted view: the ground around its center, then the horizon ahead when pitched
+   */
+  private getViewTiles(view: PredictedView): string[] {
+    const origin = maplibregl.MercatorCoordinate.fromLngLat(view.center);
+    const urls: string[] = [];
+
+    const horizon = HORIZON_STEPS.find((h) => view.pitch >= h.minPitch)?.steps ?? 0;
+    // One screen-height of ground in mercator units (a flat-map approximation - good enough ahead)
+    const screenHeight = this.map.getCanvas().clientHeight / (WORLD_SIZE_PX * Math.pow(2, view.zoom));
+    const rad = (view.bearing * Math.PI) / 180;
+
+    for (let step = 0; step <= horizon; step++) {
+      const x = origin.x + Math.sin(rad) * screenHeight * step;
+      const y = origin.y - Math.cos(rad) * screenHeight * step;
+
+      for (const id of this.sources) {
+        urls.push(...this.getTilesAround(id, x, y, tileZoomFor(id, view.zoom - step)));
+      }
+    }
+
+    return urls;
+  }
+
+  private getTilesAround(id: TileSourceId, x: number, y: number, zoom: number): string[] {
+    const tiles = Math.pow(2, zoom);
+    const centerX = Math.floor((x - Math.floor(x)) * tiles);
+    const centerY = Math.floor(y * tiles);
+    const urls: string[] = [];
+
+    for (let dy = -GROUND_RADIUS; dy <= GROUND_RADIUS; dy++) {
+      const tileY = centerY + dy;
+      if (tileY < 0 || tileY >= tiles) continue;
+
+      for (let dx = -GROUND_RADIUS; dx <= GROUND_RADIUS; dx++) {
+        // Wrap across the antimeridian
+        const tileX = (((centerX + dx) % tiles) + tiles) % tiles;
+        urls.push(getTilePath(id, zoom, tileX, tileY));
+      }
+    }
+
+    return urls;
+  }
+
+  cleanup() {
+    this.predictor.cleanup();
+    this.map.off('move', this.handleMove);
+    this.map.off('moveend', this.handleMove);
+    this.recent.clear();
+  }
+}
@@ -0,0 +1,226 @@
+// /map/profile/ProfileDrawTool.ts
+// Route line input for elevation profiles
+// Drawing: each click adds a vertex, double-click (or finish()) completes the line.
+// Picking: a click on a Waze jam line takes its geometry instead.
+// Also draws the point hovered on the profile chart.
+
+import type maplibregl from 'maplibre-gl';
+
+export type ProfileLine = [number, number][];
+
+export type ProfileDrawMode = 'idle' | 'drawing' | 'picking';
+
+export type ProfileLineCallback = (line: ProfileLine) => void;
+
+const LINE_SOURCE = 'profile-line-source';
+const HOVER_SOURCE = 'profile-hover-source';
+const LAYER_IDS = ['profile-line', 'profile-vertices', 'profile-hover'];
+
+// Clicks closer than this to the previous vertex are ignored (double-click fires two clicks first)
+const VERTEX_MIN_DISTANCE_PX = 4;
+
+const EMPTY_COLLECTION: GeoJSON.FeatureCollection = { type: 'FeatureCollection', features: [] };
+
+export class ProfileDrawTool {
+  private map: maplibregl.Map;
+  private onComplete: ProfileLineCallback;
+
+  private mode: ProfileDrawMode = 'idle';
+  private vertices: ProfileLine = [];
+  private line: ProfileLine | null = null;
+  private cursor: [number, number] | null = null;
+
+  constructor(map: maplibregl.Map, onComplete: ProfileLineCallback) {
+    this.map = map;
+    this.onComplete = onComplete;
+
+    this.addLayers();
+    map.on('click', this.onClick);
+    map.on('dblclick', this.onDoubleClick);
+    map.on('mousemove', this.onMouseMove);
+  }
+
+  private addLayers() {
+    this.map.addSource(LINE_SOURCE, { type: 'geojson', data: EMPTY_COLLECTION });
+    this.map.addSource(HOVER_SOURCE, { type: 'geojson', data: EMPTY_COLLECTION });
+
+    this.map.addLayer({
+      id: 'profile-line',
+      type: 'line',
+      source: LINE_SOURCE,
+      filter: ['==', ['geometry-type'], 'LineString'],
+      layout: { 'line-cap': 'round', 'line-join': 'round' },
+      paint: {
+        'line-color': '#22d3ee',
+        'line-width': 4,
+        'line-opacity': 0.9,
+      },
+    });
+
+    this.map.addLayer({
+      id: 'profile-vertices',
+      type: 'circle',
+      source: LINE_SOURCE,
+      filter: ['==', ['geometry-type'], 'Point'],
+      paint: {
+        'circle-radius': 5,
+        'circle-color': '#0e7490',
+        'circle-stroke-width': 2,
+        'circle-stroke-color': '#ffffff',
+      },
+    });
+
+    this.map.addLayer({
+      id: 'profile-hover',
+      type: 'circle',
+      source: HOVER_SOURCE,
+      paint: {
+        'circle-radius': 7,
+        'circle-color': '#f97316',
+        'circle-stroke-width': 3,
+        'circle-stroke-color': '#ffffff',
+      },
+    });
+  }
+
+  private render() {
+    // While drawing, the last segment follows the cursor
+    const coordinates = this.mode === 'drawing'
+      ? (this.cursor ? [...this.vertices, this.cursor] : this.vertices)
+      : (this.line ?? []);
+    const features: GeoJSON.Feature[] = [];
+
+    if (coordinates.length >= 2) {
+      features.push({ type: 'Feature', properties: {}, geometry: { type: 'LineString', coordinates } });
+    }
+    if (this.mode === 'drawing') {
+      for (const vertex of this.vertices) {
+        features.push({ type: 'Feature', properties: {}, geometry: { type: 'Point', coordinates: vertex } });
+      }
+    }
+
+    (this.map.getSource(LINE_SOURCE) as maplibregl.GeoJSONSource | undefined)?.setData({
+      type: 'FeatureCollection',
+      features,
+    });
+  }
+
+  private setMode(mode: ProfileDrawMode) {
+    this.mode = mode;
+    this.cursor = null;
+
+    // Double-click finishes the line instead of zooming while drawing
+    if (mode === 'drawing') {
+      this.map.doubleClickZoom.disable();
+    } else {
+      this.map.doubleClickZoom.enable();
+    }
+    this.map.getCanvas().style.cursor = mode === 'idle' ? '' : 'crosshair';
+  }
+
+  private onClick = (e: maplibregl.MapMouseEvent) => {
+    if (this.mode === 'drawing') {
+      const last = this.vertices[this.vertices.length - 1];
+      if (last) {
+        const lastPoint = this.map.project(last);
+        if (Math.hypot(lastPoint.x - e.point.x, lastPoint.y - e.point.y) < VERTEX_MIN_DISTANCE_PX) return;
+      }
+      this.vertices.push([e.lngLat.lng, e.lngLat.lat]);
+      this.render();
+      return;
+    }
+
+    if (this.mode === 'picking') {
+      const jam = this.map
+        .queryRenderedFeatures(e.point)
+        .find((feature) => feature.source === 'waze-source' && feature.geometry.type === 'LineString');
+      if (!jam || jam.geometry.type !== 'LineString') return;
+
+      this.complete(jam.geometry.coordinates.map(([lng, lat]) => [lng, lat] as [number, number]));
+    }
+  };
+
+  private onDoubleClick = (e: maplibregl.MapMouseEvent) => {
+    if (this.mode !== 'drawing') return;
+    e.preventDefault();
+    this.finish();
+  };
+
+  private onMouseMove = (e: maplibregl.MapMouseEvent) => {
+    if (this.mode !== 'drawing' || this.vertices.length === 0) return;
+    this.cursor = [e.lngLat.lng, e.lngLat.lat];
+    this.render();
+  };
+
+  private complete(line: ProfileLine) {
+    this.line = line;
+    this.vertices = [];
+    this.setMode('idle');
+    this.render();
+    this.onComplete(line);
+  }
+
+  getMode(): ProfileDrawMode {
+    return this.mode;
+  }
+
+  /** Start a new line, clearing the current one */
+  startDrawing() {
+    this.line = null;
+    this.vertices = [];
+    this.setHoverPoint(null);
+    this.setMode('drawing');
+    this.render();
+  }
+
+  /** Wait for a click on a Waze jam line */
+  startPicking() {
+    this.vertices = [];
+    this.setMode('picking');
+    this.render();
+  }
+
+  /** Complete the line being drawn - ignored until it has two vertices */
+  finish() {
+    if (this.mode !== 'drawing' || this.vertices.length < 2) return;
+    this.complete(this.vertices);
+  }
+
+  /** Show a profile line drawn elsewhere */
+  setLine(line: ProfileLine) {
+    this.complete(line);
+  }
+
+  /** Highlight a point along the line, or clear the highlight */
+  setHoverPoint(point: [number, number] | null) {
+    (this.map.getSource(HOVER_SOURCE) as maplibregl.GeoJSONSource | undefined)?.setData(
+      point
+        ? { type: 'Feature', properties: {}, geometry: { type: 'Point', coordinates: point } }
+        : EMPTY_COLLECTION
+    );
+  }
+
+  clear() {
+    this.line = null;
+    this.vertices = [];
+    this.setMode('idle');
+    this.setHoverPoint(null);
+    this.render();
+  }
+
+  cleanup() {
+    this.map.off('click', this.onClick);
+    this.map.off('dblclick', this.onDoubleClick);
+    this.map.off('mousemove', this.onMouseMove);
+
+    // The map may already be removed on unmount
+    if (!this.map.getStyle()) return;
+    if (this.mode === 'drawing') this.map.doubleClickZoom.enable();
+    for (const id of LAYER_IDS) {
+      if (this.map.getLayer(id)) this.map.removeLayer(id);
+    }
+    for (const id of [LINE_SOURCE, HOVER_SOURCE]) {
+      if (this.map.getSource(id)) this.map.removeSource(id);
+    }
+  }
+}
@@ -3,6 +3,7 @@
 import dynamic from 'next/dynamic';
 import { useEffect } from 'react';
 import { registerTileServiceWorker } from './lib/service-worker';
+import { keepTileSessionAlive } from './lib/tile-session-refresh';
 
 const MapView = dynamic(() => import('./components/MapView'), {
     ssr: false,
@@ -19,6 +20,9 @@ export default function Home() {
         });
     }, []);
 
+    // Keep the tile session cookie fresh for tabs left open (only matters with TILE_SIGNING_SECRET set)
+    useEffect(() => keepTileSessionAlive(), []);
+
     return (
         <main className="w-screen h-screen overflow-hidden">
             <MapView />
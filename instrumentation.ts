@@ -0,0 +1,10 @@
+// Runs once when a server instance starts
+// Self-hosted deployments (`next start`) set WATCH_AREA_SCHEDULER=1 to scan watch areas from the server
+// process; serverless deployments use the cron in vercel.json instead.
+
+export async function register() {
+    if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.WATCH_AREA_SCHEDULER === '1') {
+        const { startWatchAreaScheduler } = await import('./app/lib/watch-areas');
+        startWatchAreaScheduler();
+    }
+}
@@ -0,0 +1,28 @@
+-- Tables from before the migrations existed - created only on a fresh database
+CREATE TABLE IF NOT EXISTS police_reports (
+    alert_id varchar(255) PRIMARY KEY,
+    type varchar(50),
+    subtype varchar(50),
+    latitude double precision,
+    longitude double precision,
+    street varchar(255),
+    city varchar(255),
+    alert_reliability integer,
+    publish_datetime_utc timestamp,
+    created_at timestamp DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS traffic_alerts (
+    alert_id varchar(255) PRIMARY KEY,
+    type varchar(50),
+    subtype varchar(50),
+    latitude double precision,
+    longitude double precision,
+    street varchar(255),
+    city varchar(255),
+    alert_reliability integer,
+    alert_confidence integer,
+    description text,
+    publish_datetime_utc timestamp,
+    created_at timestamp DEFAULT now()
+);
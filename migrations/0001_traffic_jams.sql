@@ -0,0 +1,16 @@
+-- Waze jams, refreshed on every scan that returns them
+CREATE TABLE IF NOT EXISTS traffic_jams (
+    jam_id varchar(255) PRIMARY KEY,
+    line jsonb NOT NULL,
+    latitude double precision,
+    longitude double precision,
+    level integer,
+    speed_kmh double precision,
+    delay_seconds integer,
+    length_meters integer,
+    street varchar(255),
+    city varchar(255),
+    publish_datetime_utc timestamp,
+    created_at timestamp DEFAULT now(),
+    updated_at timestamp DEFAULT now()
+);
@@ -0,0 +1,20 @@
+-- Alert lifecycle: first and latest scan that returned the alert, how many did, and when it cleared
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'traffic_alerts' AND column_name = 'first_seen_at'
+    ) THEN
+        ALTER TABLE traffic_alerts
+            ADD COLUMN first_seen_at timestamp DEFAULT now() NOT NULL,
+            ADD COLUMN last_seen_at timestamp DEFAULT now() NOT NULL,
+            ADD COLUMN seen_count integer DEFAULT 1 NOT NULL;
+
+        -- Alerts stored before this only know when they were first saved
+        UPDATE traffic_alerts
+        SET first_seen_at = coalesce(created_at, first_seen_at),
+            last_seen_at = coalesce(created_at, last_seen_at);
+    END IF;
+END $$;
+
+ALTER TABLE traffic_alerts ADD COLUMN IF NOT EXISTS resolved_at timestamp;
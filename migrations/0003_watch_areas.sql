@@ -0,0 +1,15 @@
+-- Named regions scanned for Waze alerts on a schedule
+CREATE TABLE IF NOT EXISTS watch_areas (
+    id serial PRIMARY KEY,
+    name varchar(255) NOT NULL UNIQUE,
+    west double precision NOT NULL,
+    south double precision NOT NULL,
+    east double precision NOT NULL,
+    north double precision NOT NULL,
+    polygon jsonb,
+    interval_minutes integer DEFAULT 15 NOT NULL,
+    enabled boolean DEFAULT true NOT NULL,
+    last_scanned_at timestamp,
+    last_scan_error text,
+    created_at timestamp DEFAULT now()
+);
@@ -0,0 +1,22 @@
+// Runs before page requests
+// Hands the map a tile session cookie (see app/lib/tile-session.ts) so its tile requests pass the
+// TILE_SIGNING_SECRET check without a signed URL.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { issueTileSession, setTileSessionCookie } from './app/lib/tile-session';
+
+export function proxy(request: NextRequest) {
+    const response = NextResponse.next();
+    const session = issueTileSession();
+
+    if (session) {
+        setTileSessionCookie(request, response, session);
+    }
+
+    return response;
+}
+
+export const config = {
+    // Pages only - not API routes, Next.js assets or static files
+    matcher: ['/((?!api|_next|.*\\..*).*)'],
+};
@@ -1,11 +1,31 @@
 // Tile Cache Service Worker - Next-Gen Map Tile Caching
 // Implements intelligent client-side tile caching with storage quota management
 
-const CACHE_NAME = 'tile-cache-v1';
-const TILE_CACHE_NAME = 'map-tiles-v1';
+const CACHE_NAME = 'tile-cache-v1'; // worker assets - the source manifest
+const TILE_CACHE_PREFIX = 'map-tiles-v2-'; // one bucket per source: map-tiles-v2-{source}
 const MIN_FREE_STORAGE_BYTES = 1 * 1024 * 1024 * 1024; // 1GB minimum free storage
-const MAX_TILE_CACHE_SIZE = 500 * 1024 * 1024; // 500MB max tile cache size
-const TILE_URL_PATTERN = /\/api\/tiles\/(satellite|terrain)\/\d+\/\d+\/\d+$/;
+const TILE_URL_PATTERN = /\/api\/tiles\/([a-z0-9_]+)\/(\d+)\/\d+\/\d+(\.pbf)?$/;
+
+// Source manifest - proxied sources with their TTL per zoom and cache budget (from the tile registry)
+const SOURCES_MANIFEST_URL = '/api/tiles/sources';
+const MANIFEST_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+// Used for a proxied source when the manifest can't be loaded
+const DEFAULT_SOURCE_POLICY = { ttlByZoom: [], budgetBytes: 50 * 1024 * 1024 };
+const DEFAULT_TILE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+let manifest = null;
+let manifestLoadedAt = 0;
+
+// Offline packs - user-downloaded areas, one pinned cache per pack (never LRU-evicted)
+const PACK_CACHE_PREFIX = 'map-pack-';
+const PACK_INDEX_CACHE = 'map-packs-index'; // pack metadata, one JSON entry per pack
+const PACK_DOWNLOAD_CONCURRENCY = 6;
+// Attempts per tile while the tile proxy answers 429 Too Many Requests
+const PACK_RATE_LIMIT_RETRIES = 5;
+const PACK_PROGRESS_INTERVAL_MS = 500;
+
+// Packs downloading in this worker: id -> { cancelled, deleted, abort, stopped } (see downloadPack)
+const activePackDownloads = new Map();
 
 console.log('[TileWorker] Service worker loading...');
 
@@ -41,73 +61,562 @@ async function hasEnoughStorage() {
     }
 }
 
-// Manage cache size - LRU eviction
-async function manageCacheSize() {
+// IndexedDB tile index - one record per cached tile, so size accounting and LRU eviction
+// never have to read cached bodies. Records: { packId, source, url, bytes, lastAccess }, where
+// packId is '' for the opportunistic per-source caches and the pack id for offline pack tiles.
+// Per-(packId, source) byte and tile totals are kept alongside in the same transactions.
+const INDEX_DB_NAME = 'map-tile-index';
+const INDEX_DB_VERSION = 2;
+const LRU_PACK_ID = '';
+
+let indexDbPromise = null;
+// Sources with an eviction pass in progress
+const evictingSources = new Set();
+
+function openIndexDb() {
+    if (!indexDbPromise) {
+        indexDbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(INDEX_DB_NAME, INDEX_DB_VERSION);
+            request.onupgradeneeded = (event) => {
+                const db = request.result;
+                if (event.oldVersion < 1) {
+                    const tiles = db.createObjectStore('tiles', { keyPath: ['packId', 'source', 'url'] });
+                    tiles.createIndex('lru', ['packId', 'source', 'lastAccess']);
+                    db.createObjectStore('totals', { keyPath: ['packId', 'source'] });
+                }
+                // v2: tiles by url, so a request finds its offline pack without opening every pack cache
+                if (event.oldVersion < 2) {
+                    request.transaction.objectStore('tiles').createIndex('url', 'url');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                indexDbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return indexDbPromise;
+}
+
+function idbRequest(request) {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function idbComplete(tx) {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = tx.onabort = () => reject(tx.error);
+    });
+}
+
+// Key range covering every record under a key prefix ([packId] or [packId, source])
+function indexRange(keyPrefix) {
+    return IDBKeyRange.bound(keyPrefix, [...keyPrefix, []]);
+}
+
+function absoluteUrl(request) {
+    return typeof request === 'string' ? new URL(request, self.location.origin).href : request.url;
+}
+
+// Record a stored tile (replacing any previous record for the same url) and return the new totals
+async function indexPut(packId, source, url, bytes) {
+    const db = await openIndexDb();
+    const tx = db.transaction(['tiles', 'totals'], 'readwrite');
+    const done = idbComplete(tx);
+    const tiles = tx.objectStore('tiles');
+    const totals = tx.objectStore('totals');
+
+    const previous = await idbRequest(tiles.get([packId, source, url]));
+    const total = (await idbRequest(totals.get([packId, source]))) || { packId, source, bytes: 0, count: 0 };
+    if (previous) {
+        total.bytes -= previous.bytes;
+        total.count--;
+    }
+    total.bytes += bytes;
+    total.count++;
+
+    tiles.put({ packId, source, url, bytes, lastAccess: Date.now() });
+    totals.put(total);
+    await done;
+    return total;
+}
+
+// Bump a tile's last-access time on a cache hit
+async function indexTouch(packId, source, url) {
     try {
-        const cache = await caches.open(TILE_CACHE_NAME);
-        const keys = await cache.keys();
-
-        if (keys.length === 0) return;
-
-        // Estimate total cache size
-        let totalSize = 0;
-        const entries = [];
-
-        for (const request of keys) {
-            const response = await cache.match(request);
-            if (response) {
-                const blob = await response.blob();
-                const size = blob.size;
-                totalSize += size;
-
-                // Extract timestamp from cache (stored in custom header)
-                const cachedTime = response.headers.get('x-sw-cached-time');
-                entries.push({
-                    request,
-                    size,
-                    timestamp: cachedTime ? parseInt(cachedTime, 10) : Date.now(),
-                });
-            }
+        const db = await openIndexDb();
+        const tx = db.transaction('tiles', 'readwrite');
+        const done = idbComplete(tx);
+        const tiles = tx.objectStore('tiles');
+
+        const record = await idbRequest(tiles.get([packId, source, url]));
+        if (record) {
+            record.lastAccess = Date.now();
+            tiles.put(record);
         }
+        await done;
+    } catch (error) {
+        console.warn('[TileWorker] Index touch failed:', url, error);
+    }
+}
 
-        console.log(
-            `[TileWorker] Cache size: ${(totalSize / 1024 / 1024).toFixed(2)}MB, ${keys.length} tiles`
+// Drop every record (and total) under a key prefix
+async function indexDeleteRange(keyPrefix) {
+    const db = await openIndexDb();
+    const tx = db.transaction(['tiles', 'totals'], 'readwrite');
+    const done = idbComplete(tx);
+    tx.objectStore('tiles').delete(indexRange(keyPrefix));
+    tx.objectStore('totals').delete(indexRange(keyPrefix));
+    await done;
+}
+
+async function getIndexTotals() {
+    const db = await openIndexDb();
+    return idbRequest(db.transaction('totals').objectStore('totals').getAll());
+}
+
+// Rebuild the records under a key prefix from the cache itself - reads every body, so
+// this only runs when the index has drifted (e.g. caches created before the index existed)
+async function rebuildIndex(cacheName, keyPrefix) {
+    const cache = await caches.open(cacheName);
+    const records = [];
+
+    for (const request of await cache.keys()) {
+        const tile = parseTileUrl(new URL(request.url).pathname);
+        const response = await cache.match(request);
+        if (!tile || !response) continue;
+
+        const cachedTime = parseInt(response.headers.get('x-sw-cached-time') || '0', 10);
+        records.push({
+            packId: keyPrefix[0],
+            source: tile.source,
+            url: request.url,
+            bytes: (await response.blob()).size,
+            lastAccess: cachedTime || Date.now(),
+        });
+    }
+
+    const db = await openIndexDb();
+    const tx = db.transaction(['tiles', 'totals'], 'readwrite');
+    const done = idbComplete(tx);
+    const tiles = tx.objectStore('tiles');
+    const totals = new Map();
+
+    tiles.delete(indexRange(keyPrefix));
+    tx.objectStore('totals').delete(indexRange(keyPrefix));
+
+    for (const record of records) {
+        tiles.put(record);
+        const total = totals.get(record.source) || { packId: record.packId, source: record.source, bytes: 0, count: 0 };
+        total.bytes += record.bytes;
+        total.count++;
+        totals.set(record.source, total);
+    }
+    for (const total of totals.values()) {
+        tx.objectStore('totals').put(total);
+    }
+
+    await done;
+    console.log(`[TileWorker] Index rebuilt for ${cacheName}: ${records.length} tiles`);
+}
+
+// Bring the index in line with the caches - counts only, bodies are read just for caches that drifted
+async function reconcileIndex() {
+    const cacheNames = await caches.keys();
+    const totals = await getIndexTotals();
+
+    const indexedCount = (match) =>
+        totals.filter(match).reduce((sum, total) => sum + total.count, 0);
+
+    for (const name of cacheNames) {
+        let keyPrefix;
+        if (name.startsWith(TILE_CACHE_PREFIX)) {
+            keyPrefix = [LRU_PACK_ID, name.slice(TILE_CACHE_PREFIX.length)];
+        } else if (name.startsWith(PACK_CACHE_PREFIX)) {
+            keyPrefix = [name.slice(PACK_CACHE_PREFIX.length)];
+        } else {
+            continue;
+        }
+
+        const cache = await caches.open(name);
+        const count = (await cache.keys()).length;
+        const indexed = indexedCount(
+            (total) => total.packId === keyPrefix[0] && (keyPrefix.length === 1 || total.source === keyPrefix[1])
         );
 
-        // If over limit, evict oldest tiles (LRU)
-        if (totalSize > MAX_TILE_CACHE_SIZE) {
-            // Sort by timestamp (oldest first)
-            entries.sort((a, b) => a.timestamp - b.timestamp);
+        if (count !== indexed) {
+            await rebuildIndex(name, keyPrefix);
+        }
+    }
 
-            let evictedSize = 0;
-            let evictedCount = 0;
+    // Records whose cache no longer exists (deleted buckets and packs)
+    for (const total of totals) {
+        const name = total.packId === LRU_PACK_ID ? tileCacheName(total.source) : PACK_CACHE_PREFIX + total.packId;
+        if (!cacheNames.includes(name)) {
+            await indexDeleteRange([total.packId, total.source]);
+        }
+    }
+}
 
-            for (const entry of entries) {
-                if (totalSize - evictedSize <= MAX_TILE_CACHE_SIZE * 0.8) {
-                    // Target 80% to avoid thrashing
-                    break;
-                }
+// Load the source manifest - memory, then the worker cache, then the network
+async function loadManifest(forceRefresh = false) {
+    if (manifest && !forceRefresh && Date.now() - manifestLoadedAt < MANIFEST_MAX_AGE_MS) {
+        return manifest;
+    }
+
+    const cache = await caches.open(CACHE_NAME);
 
-                await cache.delete(entry.request);
-                evictedSize += entry.size;
-                evictedCount++;
+    if (!forceRefresh && !manifest) {
+        const cached = await cache.match(SOURCES_MANIFEST_URL);
+        if (cached) {
+            manifest = await cached.json();
+            manifestLoadedAt = parseInt(cached.headers.get('x-sw-cached-time') || '0', 10);
+            if (Date.now() - manifestLoadedAt < MANIFEST_MAX_AGE_MS) {
+                return manifest;
             }
+        }
+    }
 
-            console.log(
-                `[TileWorker] Evicted ${evictedCount} tiles (${(evictedSize / 1024 / 1024).toFixed(2)}MB)`
-            );
+    try {
+        const response = await fetch(SOURCES_MANIFEST_URL);
+        if (response.ok) {
+            const data = await response.clone().json();
+            const headers = new Headers(response.headers);
+            headers.set('x-sw-cached-time', Date.now().toString());
+            await cache.put(SOURCES_MANIFEST_URL, new Response(JSON.stringify(data), { headers }));
+
+            manifest = data;
+            manifestLoadedAt = Date.now();
+            console.log(`[TileWorker] Source manifest loaded (${Object.keys(data.sources).length} sources)`);
         }
+    } catch (error) {
+        console.warn('[TileWorker] Source manifest unavailable, using cached/default policy:', error);
+    }
+
+    return manifest;
+}
+
+// Caching policy for a source - null when the manifest says it isn't proxied
+async function getSourcePolicy(source) {
+    const current = await loadManifest();
+    if (!current) return DEFAULT_SOURCE_POLICY;
+    return current.sources[source] || null;
+}
+
+function parseTileUrl(pathname) {
+    const match = TILE_URL_PATTERN.exec(pathname);
+    return match ? { source: match[1], z: parseInt(match[2], 10) } : null;
+}
+
+function tileCacheName(source) {
+    return TILE_CACHE_PREFIX + source;
+}
+
+// Same TTL classes as the Redis cache (TileCache.getTTL)
+function isExpired(response, policy, zoom) {
+    const cachedTime = parseInt(response.headers.get('x-sw-cached-time') || '0', 10);
+    const ttlSeconds = policy.ttlByZoom[zoom] ?? DEFAULT_TILE_TTL_SECONDS;
+    return Date.now() - cachedTime > ttlSeconds * 1000;
+}
+
+// Fallback tiles (X-Tile-Fallback, e.g. voyager served for streets) only stand in while the primary is
+// down - stored under the primary's URL they would outlive its recovery
+function isStorableTile(response) {
+    return response.ok && !response.headers.has('X-Tile-Fallback');
+}
+
+// Store a tile in its source bucket, stamped for TTL and LRU
+async function putTile(source, policy, request, response) {
+    const hasStorage = await hasEnoughStorage();
+    if (!hasStorage) {
+        console.warn('[TileWorker] Insufficient storage, skipping cache for:', request.url || request);
+        return;
+    }
+
+    const headers = new Headers(response.headers);
+    headers.set('x-sw-cached-time', Date.now().toString());
+
+    const blob = await response.blob();
+    const cache = await caches.open(tileCacheName(source));
+    await cache.put(request, new Response(blob, {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+    }));
+
+    const total = await indexPut(LRU_PACK_ID, source, absoluteUrl(request), blob.size);
+    if (total.bytes > policy.budgetBytes) {
+        manageCacheSize(source, policy.budgetBytes);
+    }
+}
+
+// Manage cache size - LRU eviction (by last access) within one source bucket, driven by the index
+// Only touches the opportunistic tile caches - offline pack caches are pinned
+async function manageCacheSize(source, budgetBytes) {
+    if (evictingSources.has(source)) return;
+    evictingSources.add(source);
+
+    try {
+        const db = await openIndexDb();
+        const tx = db.transaction(['tiles', 'totals'], 'readwrite');
+        const done = idbComplete(tx);
+        const totals = tx.objectStore('totals');
+
+        const total = await idbRequest(totals.get([LRU_PACK_ID, source]));
+        if (!total || total.bytes <= budgetBytes) {
+            await done;
+            return;
+        }
+
+        // Target 80% to avoid thrashing
+        const targetBytes = budgetBytes * 0.8;
+        const evicted = await new Promise((resolve, reject) => {
+            const found = [];
+            let freed = 0;
+            const request = tx
+                .objectStore('tiles')
+                .index('lru')
+                .openCursor(IDBKeyRange.bound([LRU_PACK_ID, source, 0], [LRU_PACK_ID, source, Infinity]));
+
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (!cursor || total.bytes - freed <= targetBytes) {
+                    resolve(found);
+                    return;
+                }
+                found.push(cursor.value);
+                freed += cursor.value.bytes;
+                cursor.delete();
+                cursor.continue();
+            };
+            request.onerror = () => reject(request.error);
+        });
+
+        const evictedSize = evicted.reduce((sum, record) => sum + record.bytes, 0);
+        total.bytes -= evictedSize;
+        total.count -= evicted.length;
+        totals.put(total);
+        await done;
+
+        const cache = await caches.open(tileCacheName(source));
+        await Promise.all(evicted.map((record) => cache.delete(record.url)));
+
+        console.log(
+            `[TileWorker] Evicted ${evicted.length} ${source} tiles (${(evictedSize / 1024 / 1024).toFixed(2)}MB), ` +
+                `${(total.bytes / 1024 / 1024).toFixed(2)}MB remaining`
+        );
     } catch (error) {
         console.error('[TileWorker] Error managing cache size:', error);
+    } finally {
+        evictingSources.delete(source);
     }
 }
 
+function packIndexUrl(id) {
+    return `/__map-packs/${encodeURIComponent(id)}`;
+}
+
+async function savePackMeta(pack) {
+    pack.updatedAt = Date.now();
+    const index = await caches.open(PACK_INDEX_CACHE);
+    await index.put(
+        packIndexUrl(pack.id),
+        new Response(JSON.stringify(pack), { headers: { 'Content-Type': 'application/json' } })
+    );
+}
+
+async function listPacks() {
+    const index = await caches.open(PACK_INDEX_CACHE);
+    const keys = await index.keys();
+    const packs = [];
+
+    for (const request of keys) {
+        const response = await index.match(request);
+        if (!response) continue;
+
+        const pack = await response.json();
+        // A download cut short by the worker stopping can be resumed
+        if (pack.status === 'downloading' && !activePackDownloads.has(pack.id)) {
+            pack.status = 'partial';
+        }
+        packs.push(pack);
+    }
+
+    return packs.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+async function broadcastPackProgress(pack) {
+    const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    for (const client of clients) {
+        client.postMessage({ type: 'PACK_PROGRESS', pack });
+    }
+}
+
+// Look a tile up in the offline packs - the index says which pack caches hold it
+async function matchPackTile(request) {
+    let records;
+    try {
+        const db = await openIndexDb();
+        records = await idbRequest(db.transaction('tiles').objectStore('tiles').index('url').getAll(request.url));
+    } catch (error) {
+        console.warn('[TileWorker] Index lookup failed:', request.url, error);
+        return null;
+    }
+
+    for (const record of records) {
+        if (record.packId === LRU_PACK_ID) continue;
+
+        const cache = await caches.open(PACK_CACHE_PREFIX + record.packId);
+        const response = await cache.match(request);
+        if (response) {
+            indexTouch(record.packId, record.source, record.url);
+            return response;
+        }
+    }
+
+    return null;
+}
+
+// Fetch a pack tile, waiting out the proxy's rate limit (429 + Retry-After) instead of failing the tile
+// Cancelling the download aborts the request and cuts the wait short
+async function fetchPackTile(url, state) {
+    const { signal } = state.abort;
+
+    for (let attempt = 1; ; attempt++) {
+        const response = await fetch(url, { signal });
+        if (response.status !== 429 || attempt >= PACK_RATE_LIMIT_RETRIES || signal.aborted) {
+            return response;
+        }
+
+        const retryAfter = Number(response.headers.get('Retry-After')) || 1;
+        await new Promise((resolve) => {
+            const timer = setTimeout(resolve, retryAfter * 1000);
+            signal.addEventListener('abort', () => {
+                clearTimeout(timer);
+                resolve();
+            }, { once: true });
+        });
+    }
+}
+
+// Stop a running download - in-flight requests are aborted, so it winds down within a tile write
+function cancelPackDownload(state) {
+    state.cancelled = true;
+    state.abort.abort();
+}
+
+// Download every tile of a pack - tiles already in the pack are skipped, so this also resumes
+async function downloadPack(pack, urls) {
+    // `stopped` settles once no worker can write to the pack any more - deletePack waits for it
+    let markStopped;
+    const state = {
+        cancelled: false,
+        deleted: false,
+        abort: new AbortController(),
+        stopped: new Promise((resolve) => (markStopped = resolve)),
+    };
+    activePackDownloads.set(pack.id, state);
+
+    try {
+        const cache = await caches.open(PACK_CACHE_PREFIX + pack.id);
+        Object.assign(pack, { total: urls.length, downloaded: 0, failed: 0, bytes: 0, status: 'downloading', error: null });
+        await savePackMeta(pack);
+        await broadcastPackProgress(pack);
+
+        let next = 0;
+        let lastProgressAt = Date.now();
+
+        const worker = async () => {
+            while (next < urls.length && !state.cancelled && pack.status === 'downloading') {
+                const url = urls[next++];
+
+                try {
+                    const existing = await cache.match(url);
+                    if (existing) {
+                        pack.downloaded++;
+                        pack.bytes += (await existing.blob()).size;
+                    } else {
+                        const response = await fetchPackTile(url, state);
+                        // A fallback tile counts as failed, so resuming the pack fetches the real one
+                        if (isStorableTile(response)) {
+                            const blob = await response.blob();
+                            await cache.put(url, new Response(blob, { headers: new Headers(response.headers) }));
+                            const tile = parseTileUrl(new URL(url, self.location.origin).pathname);
+                            if (tile) await indexPut(pack.id, tile.source, absoluteUrl(url), blob.size);
+                            pack.downloaded++;
+                            pack.bytes += blob.size;
+                        } else {
+                            pack.failed++;
+                        }
+                    }
+                } catch (error) {
+                    if (error && error.name === 'QuotaExceededError') {
+                        pack.status = 'failed';
+                        pack.error = 'Storage quota exceeded';
+                    } else {
+                        // Requests aborted by cancelPackDownload aren't worth a log line
+                        if (!state.cancelled) console.error('[TileWorker] Pack tile failed:', url, error);
+                        pack.failed++;
+                    }
+                }
+
+                if (Date.now() - lastProgressAt >= PACK_PROGRESS_INTERVAL_MS) {
+                    lastProgressAt = Date.now();
+                    await savePackMeta(pack);
+                    await broadcastPackProgress(pack);
+                }
+            }
+        };
+
+        await Promise.all(Array.from({ length: PACK_DOWNLOAD_CONCURRENCY }, worker));
+    } finally {
+        activePackDownloads.delete(pack.id);
+        markStopped();
+    }
+
+    // Deleted mid-download - writing its meta again would bring it back
+    if (state.deleted) return;
+
+    if (state.cancelled) {
+        pack.status = 'cancelled';
+    } else if (pack.status === 'downloading') {
+        pack.status = pack.failed > 0 ? 'partial' : 'complete';
+    }
+
+    await savePackMeta(pack);
+    await broadcastPackProgress(pack);
+    console.log(
+        `[TileWorker] Pack "${pack.name}" ${pack.status}: ${pack.downloaded}/${pack.total} tiles, ${(pack.bytes / 1024 / 1024).toFixed(2)}MB`
+    );
+}
+
+async function deletePack(id) {
+    // Stop a running download first, or its in-flight writes would re-create the pack
+    const download = activePackDownloads.get(id);
+    if (download) {
+        download.deleted = true;
+        cancelPackDownload(download);
+        await download.stopped;
+    }
+
+    await caches.delete(PACK_CACHE_PREFIX + id);
+    const index = await caches.open(PACK_INDEX_CACHE);
+    await index.delete(packIndexUrl(id));
+    await indexDeleteRange([id]);
+    console.log('[TileWorker] Pack deleted:', id);
+}
+
 // Install event - prepare cache
 self.addEventListener('install', (event) => {
     console.log('[TileWorker] Installing...');
     event.waitUntil(
-        caches.open(CACHE_NAME).then(() => {
+        caches.open(CACHE_NAME).then(async () => {
             console.log('[TileWorker] Cache opened');
+            await loadManifest(true); // Pick up registry changes with the new worker
             return self.skipWaiting(); // Activate immediately
         })
     );
@@ -117,14 +626,23 @@ self.addEventListener('install', (event) => {
 self.addEventListener('activate', (event) => {
     console.log('[TileWorker] Activating...');
     event.waitUntil(
-        caches
-            .keys()
-            .then((cacheNames) => {
+        Promise.all([caches.keys(), loadManifest()])
+            .then(([cacheNames, current]) => {
+                // Buckets of sources no longer in the registry are dropped too
+                const isLiveBucket = (name) =>
+                    name.startsWith(TILE_CACHE_PREFIX) &&
+                    (!current || name.slice(TILE_CACHE_PREFIX.length) in current.sources);
+
                 return Promise.all(
                     cacheNames
                         .filter((name) => {
-                            // Delete old cache versions
-                            return name !== CACHE_NAME && name !== TILE_CACHE_NAME;
+                            // Delete old cache versions (offline packs are kept)
+                            return (
+                                name !== CACHE_NAME &&
+                                !isLiveBucket(name) &&
+                                name !== PACK_INDEX_CACHE &&
+                                !name.startsWith(PACK_CACHE_PREFIX)
+                            );
                         })
                         .map((name) => {
                             console.log('[TileWorker] Deleting old cache:', name);
@@ -133,6 +651,9 @@ self.addEventListener('activate', (event) => {
                 );
             })
             .then(() => self.clients.claim()) // Take control immediately
+            .then(() =>
+                reconcileIndex().catch((error) => console.error('[TileWorker] Index reconcile failed:', error))
+            )
     );
 });
 
@@ -142,67 +663,55 @@ self.addEventListener('fetch', (event) => {
     const url = new URL(request.url);
 
     // Only intercept tile requests
-    if (!TILE_URL_PATTERN.test(url.pathname)) {
+    const tile = parseTileUrl(url.pathname);
+    if (!tile) {
         return; // Let browser handle normally
     }
 
     event.respondWith(
         (async () => {
-            // LAYER 1: Check service worker cache (fastest)
-            const cache = await caches.open(TILE_CACHE_NAME);
+            const policy = await getSourcePolicy(tile.source);
+            if (!policy) {
+                return fetch(request); // Not a proxied source - nothing to cache
+            }
+
+            // LAYER 1: Check the source's service worker cache (fastest)
+            const cache = await caches.open(tileCacheName(tile.source));
             const cachedResponse = await cache.match(request);
 
-            if (cachedResponse) {
+            if (cachedResponse && !isExpired(cachedResponse, policy, tile.z)) {
                 console.log('[TileWorker] Cache HIT:', url.pathname);
+                indexTouch(LRU_PACK_ID, tile.source, request.url);
                 return cachedResponse;
             }
 
+            // LAYER 1b: Offline packs
+            const packResponse = await matchPackTile(request);
+            if (packResponse) {
+                console.log('[TileWorker] Pack HIT:', url.pathname);
+                return packResponse;
+            }
+
             // LAYER 2: Fetch from network (goes through our Redis-backed API)
-            console.log('[TileWorker] Cache MISS, fetching:', url.pathname);
+            console.log(`[TileWorker] Cache ${cachedResponse ? 'EXPIRED' : 'MISS'}, fetching:`, url.pathname);
 
             try {
                 const networkResponse = await fetch(request);
 
-                // Only cache successful responses
-                if (networkResponse.ok) {
-                    // Check storage before caching
-                    const hasStorage = await hasEnoughStorage();
-
-                    if (hasStorage) {
-                        // Clone response and add cache timestamp
-                        const responseToCache = new Response(networkResponse.clone().body, {
-                            status: networkResponse.status,
-                            statusText: networkResponse.statusText,
-                            headers: new Headers(networkResponse.headers),
-                        });
-
-                        // Add timestamp for LRU eviction
-                        responseToCache.headers.set('x-sw-cached-time', Date.now().toString());
-
-                        // Cache asynchronously (don't block response)
-                        cache.put(request, responseToCache).then(() => {
-                            console.log('[TileWorker] Cached:', url.pathname);
-                            // Periodically manage cache size
-                            if (Math.random() < 0.1) {
-                                // 10% chance to run cleanup
-                                manageCacheSize();
-                            }
-                        });
-                    } else {
-                        console.warn(
-                            '[TileWorker] Insufficient storage, skipping cache for:',
-                            url.pathname
-                        );
-                    }
+                // Only cache successful, non-fallback responses - asynchronously, don't block the response
+                if (isStorableTile(networkResponse)) {
+                    putTile(tile.source, policy, request, networkResponse.clone()).catch((error) => {
+                        console.error('[TileWorker] Cache write failed:', url.pathname, error);
+                    });
                 }
 
                 return networkResponse;
             } catch (error) {
                 console.error('[TileWorker] Fetch failed:', url.pathname, error);
 
-                // Return cached response if available, even if stale
+                // Return cached response if available, even if expired
                 if (cachedResponse) {
-                    console.log('[TileWorker] Serving stale cache due to network error');
+                    console.log('[TileWorker] Serving expired cache due to network error');
                     return cachedResponse;
                 }
 
@@ -216,28 +725,59 @@ self.addEventListener('fetch', (event) => {
     );
 });
 
+// Names of every per-source tile bucket
+async function listTileCaches() {
+    const names = await caches.keys();
+    return names.filter((name) => name.startsWith(TILE_CACHE_PREFIX));
+}
+
 // Message event - for cache management commands from main thread
 self.addEventListener('message', (event) => {
     if (event.data && event.data.type === 'CLEAR_TILE_CACHE') {
         event.waitUntil(
-            caches.delete(TILE_CACHE_NAME).then(() => {
-                console.log('[TileWorker] Tile cache cleared');
-                return caches.open(TILE_CACHE_NAME); // Recreate empty cache
-            })
+            listTileCaches()
+                .then((names) => Promise.all(names.map((name) => caches.delete(name))))
+                .then(() => indexDeleteRange([LRU_PACK_ID]))
+                .then(() => console.log('[TileWorker] Tile caches cleared'))
         );
     }
 
     if (event.data && event.data.type === 'GET_CACHE_STATS') {
         event.waitUntil(
             (async () => {
-                const cache = await caches.open(TILE_CACHE_NAME);
-                const keys = await cache.keys();
+                // Per-source breakdown straight from the index totals
+                const current = await loadManifest();
+                const sources = {};
+                let tileCount = 0;
+                let tileBytes = 0;
+
+                for (const total of await getIndexTotals()) {
+                    const entry = (sources[total.source] ||= {
+                        tileCount: 0,
+                        bytes: 0,
+                        budgetBytes: current?.sources[total.source]?.budgetBytes ?? DEFAULT_SOURCE_POLICY.budgetBytes,
+                        packTileCount: 0,
+                        packBytes: 0,
+                    });
+
+                    if (total.packId === LRU_PACK_ID) {
+                        entry.tileCount += total.count;
+                        entry.bytes += total.bytes;
+                        tileCount += total.count;
+                        tileBytes += total.bytes;
+                    } else {
+                        entry.packTileCount += total.count;
+                        entry.packBytes += total.bytes;
+                    }
+                }
                 const estimate = await navigator.storage.estimate();
 
                 event.ports[0].postMessage({
-                    tileCount: keys.length,
+                    tileCount,
+                    tileBytes,
                     storageUsed: estimate.usage,
                     storageQuota: estimate.quota,
+                    sources,
                 });
             })()
         );
@@ -253,13 +793,15 @@ self.addEventListener('message', (event) => {
                     return;
                 }
 
-                const cache = await caches.open(TILE_CACHE_NAME);
-
                 for (const tileUrl of tiles) {
+                    const tile = parseTileUrl(new URL(tileUrl, self.location.origin).pathname);
+                    const policy = tile && (await getSourcePolicy(tile.source));
+                    if (!policy) continue;
+
                     try {
                         const response = await fetch(tileUrl);
-                        if (response.ok) {
-                            await cache.put(tileUrl, response);
+                        if (isStorableTile(response)) {
+                            await putTile(tile.source, policy, tileUrl, response);
                             console.log('[TileWorker] Prefetched:', tileUrl);
                         }
                     } catch (error) {
@@ -269,6 +811,35 @@ self.addEventListener('message', (event) => {
             })()
         );
     }
+
+    if (event.data && event.data.type === 'DOWNLOAD_PACK') {
+        const { pack, urls } = event.data;
+        event.waitUntil(
+            downloadPack(pack, urls).catch((error) => {
+                console.error('[TileWorker] Pack download failed:', pack.id, error);
+            })
+        );
+    }
+
+    if (event.data && event.data.type === 'CANCEL_PACK') {
+        const download = activePackDownloads.get(event.data.id);
+        if (download) cancelPackDownload(download);
+    }
+
+    if (event.data && event.data.type === 'LIST_PACKS') {
+        event.waitUntil(listPacks().then((packs) => event.ports[0].postMessage({ packs })));
+    }
+
+    if (event.data && event.data.type === 'DELETE_PACK') {
+        event.waitUntil(
+            deletePack(event.data.id)
+                .then(() => event.ports[0].postMessage({ ok: true }))
+                .catch((error) => {
+                    console.error('[TileWorker] Pack delete failed:', event.data.id, error);
+                    event.ports[0].postMessage({ ok: false, error: String((error && error.message) || error) });
+                })
+        );
+    }
 });
 
 console.log('[TileWorker] Service worker loaded successfully');
@@ -0,0 +1,31 @@
+// Apply the SQL files in migrations/ to DATABASE_URL, in name order
+// Every migration is written to be idempotent, so this is safe to run on each deploy.
+
+import { readdirSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import postgres from 'postgres';
+
+const MIGRATIONS_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'migrations');
+
+const connectionString = process.env.DATABASE_URL;
+if (!connectionString) {
+    console.error('[Migrate] DATABASE_URL environment variable is not set');
+    process.exit(1);
+}
+
+const sql = postgres(connectionString, { max: 1, onnotice: () => {} });
+
+try {
+    const files = readdirSync(MIGRATIONS_DIR).filter((file) => file.endsWith('.sql')).sort();
+
+    for (const file of files) {
+        await sql.begin((tx) => tx.file(path.join(MIGRATIONS_DIR, file)));
+        console.log(`[Migrate] Applied ${file}`);
+    }
+} catch (error) {
+    console.error('[Migrate] Migration failed:', error);
+    process.exitCode = 1;
+} finally {
+    await sql.end();
+}